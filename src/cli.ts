@@ -2,7 +2,10 @@
 
 import * as path from "node:path";
 import { loadConfig, resolveConfig } from "./config.js";
-import { runGenerate, runWatch } from "./generate.js";
+import { EndpointParseError } from "./diagnostics.js";
+import { runCheck, runGenerate, runWatch } from "./generate.js";
+import { runOpenApi } from "./openapi.js";
+import { runImportOpenApi } from "./openapi-import.js";
 
 const HELP = `
 ertk — Easy RTK Query codegen
@@ -10,11 +13,25 @@ ertk — Easy RTK Query codegen
 Usage:
   ertk generate          One-shot generation (skips if nothing changed)
   ertk generate --watch  Watch mode with incremental regeneration
+  ertk generate --clean  Delete generated files and rebuild from scratch
+  ertk generate --force  Regenerate even if nothing changed
+  ertk check             Report endpoint diagnostics without generating
+  ertk openapi           Write an OpenAPI 3.1 document for the route handlers
+  ertk import openapi <file>
+                         Scaffold client-only endpoints from an OpenAPI 3.x document
   ertk init              Scaffold config file and directories
   ertk --help            Show this help message
 
 Options:
   --watch    Watch for endpoint file changes and regenerate
+  --strict   Exit non-zero on warnings as well as errors
+  --clean    Remove all ERTK-generated files before generating
+  --force    Ignore the manifest cache and regenerate; for import,
+             also overwrite files edited since the last import
+  --json     Print diagnostics as JSON (check only)
+  --out      OpenAPI output file; .yaml/.yml writes YAML (openapi only)
+  --dir      Folder under the endpoints dir to import into (import only)
+  --base-url URL prepended to imported paths (import only)
   --help     Show help
 `.trim();
 
@@ -38,14 +55,67 @@ async function main() {
 		const config = resolveConfig(root, userConfig);
 		const isWatch = args.includes("--watch");
 
+		const clean = args.includes("--clean");
+
 		if (isWatch) {
-			runWatch(config);
+			runWatch(config, { clean });
 		} else {
-			runGenerate(config);
+			const ok = runGenerate(config, {
+				strict: args.includes("--strict"),
+				clean,
+				force: args.includes("--force"),
+			});
+			if (!ok) process.exitCode = 1;
 		}
 		return;
 	}
 
+	if (command === "openapi") {
+		const root = process.cwd();
+		const userConfig = await loadConfig(root);
+		const config = resolveConfig(root, userConfig);
+		const outIndex = args.indexOf("--out");
+		const ok = await runOpenApi(config, {
+			output: outIndex === -1 ? undefined : args[outIndex + 1],
+		});
+		if (!ok) process.exitCode = 1;
+		return;
+	}
+
+	if (command === "import") {
+		const file = args[2];
+		if (args[1] !== "openapi" || !file || file.startsWith("--")) {
+			console.error("Usage: ertk import openapi <file>");
+			process.exit(1);
+		}
+		const root = process.cwd();
+		const userConfig = await loadConfig(root);
+		const config = resolveConfig(root, userConfig);
+		const option = (name: string) => {
+			const index = args.indexOf(name);
+			return index === -1 ? undefined : args[index + 1];
+		};
+		const ok = await runImportOpenApi(config, file, {
+			dir: option("--dir"),
+			baseUrl: option("--base-url"),
+			force: args.includes("--force"),
+		});
+		if (!ok) process.exitCode = 1;
+		return;
+	}
+
+	if (command === "check") {
+		const root = process.cwd();
+		const userConfig = await loadConfig(root);
+		const config = resolveConfig(root, userConfig);
+		const ok = runCheck(config, {
+			strict: args.includes("--strict"),
+			json: args.includes("--json"),
+		});
+		if (!ok) process.exitCode = 1;
+		return;
+	}
+
 	console.error(`Unknown command: ${command}`);
 	console.log(HELP);
 	process.exit(1);
@@ -68,7 +138,7 @@ export default defineConfig({
 \t// Directory containing endpoint definition files
 \tendpoints: "src/endpoints",
 
-\t// Directory for generated output (api.ts, store.ts, invalidation.ts)
+\t// Directory for generated output (api.ts, store.ts, invalidation.ts, client.ts)
 \tgenerated: "src/generated",
 
 \t// Base URL for RTK Query fetchBaseQuery
@@ -101,6 +171,10 @@ export default defineConfig({
 }
 
 main().catch((err) => {
+	if (err instanceof EndpointParseError) {
+		console.error(`ERTK Error: ${err.message}`);
+		process.exit(1);
+	}
 	console.error("ERTK Error:", err);
 	process.exit(1);
 });
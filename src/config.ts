@@ -122,6 +122,24 @@ export function resolveConfig(root: string, config: ErtkConfig): ResolvedConfig
 		baseUrl: config.baseUrl ?? "/api",
 		baseQuery: config.baseQuery ?? null,
 		crudFilenames: new Set(config.crudFilenames ?? DEFAULT_CRUD_FILENAMES),
+		splitByDomain: config.splitByDomain ?? false,
+		mocks: config.mocks ?? false,
+		permissions: config.permissions ?? false,
+		openapi: {
+			output: path.resolve(
+				root,
+				config.openapi?.output ?? path.join(generatedDir, "openapi.json"),
+			),
+			title: config.openapi?.title ?? null,
+			version: config.openapi?.version ?? null,
+			servers: config.openapi?.servers ?? [],
+			securityScheme: config.openapi?.securityScheme ?? {
+				type: "http",
+				scheme: "bearer",
+			},
+			securitySchemeName: config.openapi?.securitySchemeName ?? "auth",
+			rateLimited: config.openapi?.rateLimited ?? false,
+		},
 		routes: config.routes
 			? {
 					dir: path.resolve(root, config.routes.dir),
@@ -0,0 +1,231 @@
+/**
+ * ERTK Diagnostics
+ *
+ * Structured errors and warnings produced while parsing endpoint files.
+ * Collected by the codegen, printed with a code frame by `ertk check`
+ * and `ertk generate`, or emitted as JSON for editor integrations.
+ */
+
+import * as path from "node:path";
+import type { Node, SourceFile } from "ts-morph";
+
+// ─── Types ────────────────────────────────────────────────────
+
+export type DiagnosticSeverity = "error" | "warning";
+
+export type DiagnosticCode =
+	| "no-default-export"
+	| "not-an-endpoint"
+	| "private-endpoint"
+	| "unknown-method"
+	| "missing-config"
+	| "missing-name"
+	| "non-constant-value"
+	| "unsupported-syntax"
+	| "invalid-optimistic"
+	| "invalid-pagination"
+	| "invalid-multipart"
+	| "invalid-errors"
+	| "unresolvable-type"
+	| "duplicate-name"
+	| "duplicate-hook"
+	| "route-conflict"
+	| "invalid-route-segment"
+	| "route-mismatch"
+	| "domain-conflict";
+
+/** A point in an endpoint file, captured while its AST is still loaded. */
+export interface SourceLocation {
+	/** Absolute path of the file */
+	file: string;
+	/** 1-based line number */
+	line: number;
+	/** 1-based column number */
+	column: number;
+	/** Source excerpt around the location with a caret under the column */
+	codeFrame: string;
+}
+
+/** Another location involved in a diagnostic, e.g. the other side of a conflict. */
+export interface RelatedLocation {
+	file: string;
+	line: number;
+	column: number;
+	message: string;
+}
+
+export interface Diagnostic extends SourceLocation {
+	severity: DiagnosticSeverity;
+	code: DiagnosticCode;
+	message: string;
+	related?: RelatedLocation[];
+}
+
+// ─── Parse Errors ─────────────────────────────────────────────
+
+/**
+ * Thrown when an endpoint file contains a construct the codegen
+ * cannot translate. Carries the source location so the CLI can
+ * point at the offending node.
+ */
+export class EndpointParseError extends Error {
+	public code: DiagnosticCode;
+	/** The message without the location prefix */
+	public detail: string;
+	public filePath: string;
+	public line: number;
+	public column: number;
+	public node: Node;
+
+	constructor(message: string, node: Node, code: DiagnosticCode = "unsupported-syntax") {
+		const sourceFile = node.getSourceFile();
+		const { line, column } = sourceFile.getLineAndColumnAtPos(
+			node.getStart(),
+		);
+		const filePath = sourceFile.getFilePath();
+		super(`${filePath}:${line}:${column} — ${message}`);
+		this.name = "EndpointParseError";
+		this.code = code;
+		this.detail = message;
+		this.filePath = filePath;
+		this.line = line;
+		this.column = column;
+		this.node = node;
+	}
+}
+
+// ─── Construction ─────────────────────────────────────────────
+
+export function diagnosticAt(
+	node: Node,
+	severity: DiagnosticSeverity,
+	code: DiagnosticCode,
+	message: string,
+): Diagnostic {
+	return diagnosticAtLocation(locationOf(node), severity, code, message);
+}
+
+/** Diagnostic for the file as a whole, anchored at its first line. */
+export function diagnosticForFile(
+	sourceFile: SourceFile,
+	severity: DiagnosticSeverity,
+	code: DiagnosticCode,
+	message: string,
+): Diagnostic {
+	return createDiagnostic(sourceFile, 1, 1, severity, code, message);
+}
+
+/**
+ * Diagnostic at a previously captured location. Used for problems that
+ * only show up once every endpoint has been parsed, such as conflicts.
+ */
+export function diagnosticAtLocation(
+	location: SourceLocation,
+	severity: DiagnosticSeverity,
+	code: DiagnosticCode,
+	message: string,
+	related?: RelatedLocation[],
+): Diagnostic {
+	return { severity, code, message, ...location, ...(related && { related }) };
+}
+
+export function locationOf(node: Node): SourceLocation {
+	const sourceFile = node.getSourceFile();
+	const { line, column } = sourceFile.getLineAndColumnAtPos(node.getStart());
+	return {
+		file: sourceFile.getFilePath(),
+		line,
+		column,
+		codeFrame: buildCodeFrame(sourceFile.getFullText(), line, column),
+	};
+}
+
+export function diagnosticFromError(err: EndpointParseError): Diagnostic {
+	return createDiagnostic(
+		err.node.getSourceFile(),
+		err.line,
+		err.column,
+		"error",
+		err.code,
+		err.detail,
+	);
+}
+
+function createDiagnostic(
+	sourceFile: SourceFile,
+	line: number,
+	column: number,
+	severity: DiagnosticSeverity,
+	code: DiagnosticCode,
+	message: string,
+): Diagnostic {
+	return {
+		severity,
+		code,
+		message,
+		file: sourceFile.getFilePath(),
+		line,
+		column,
+		codeFrame: buildCodeFrame(sourceFile.getFullText(), line, column),
+	};
+}
+
+// ─── Formatting ───────────────────────────────────────────────
+
+const FRAME_CONTEXT_LINES = 2;
+
+function buildCodeFrame(source: string, line: number, column: number): string {
+	const lines = source.split(/\r?\n/);
+	const first = Math.max(1, line - FRAME_CONTEXT_LINES);
+	const last = Math.min(lines.length, line + FRAME_CONTEXT_LINES);
+	const gutterWidth = String(last).length;
+
+	const frame: string[] = [];
+	for (let n = first; n <= last; n++) {
+		const marker = n === line ? ">" : " ";
+		const gutter = String(n).padStart(gutterWidth);
+		const text = lines[n - 1].replace(/\t/g, "  ");
+		frame.push(`${marker} ${gutter} | ${text}`.trimEnd());
+		if (n === line) {
+			const prefix = lines[n - 1].slice(0, column - 1).replace(/\t/g, "  ");
+			frame.push(`  ${" ".repeat(gutterWidth)} | ${" ".repeat(prefix.length)}^`);
+		}
+	}
+	return frame.join("\n");
+}
+
+/** Human-readable rendering: `file:line:col - error code: message` plus the code frame. */
+export function formatDiagnostic(diagnostic: Diagnostic, root: string): string {
+	const file = path.relative(root, diagnostic.file).replace(/\\/g, "/");
+	let text =
+		`${file}:${diagnostic.line}:${diagnostic.column} - ` +
+		`${diagnostic.severity} ${diagnostic.code}: ${diagnostic.message}\n\n` +
+		`${diagnostic.codeFrame}\n`;
+	for (const related of diagnostic.related ?? []) {
+		const relatedFile = path.relative(root, related.file).replace(/\\/g, "/");
+		text += `\n  ${relatedFile}:${related.line}:${related.column} - ${related.message}\n`;
+	}
+	return text;
+}
+
+export function summarizeDiagnostics(diagnostics: Diagnostic[]): {
+	errors: number;
+	warnings: number;
+} {
+	let errors = 0;
+	let warnings = 0;
+	for (const d of diagnostics) {
+		if (d.severity === "error") errors++;
+		else warnings++;
+	}
+	return { errors, warnings };
+}
+
+/** JSON report for editor integrations. */
+export function formatDiagnosticsJson(diagnostics: Diagnostic[]): string {
+	return JSON.stringify(
+		{ diagnostics, summary: summarizeDiagnostics(diagnostics) },
+		null,
+		2,
+	);
+}
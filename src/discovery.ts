@@ -0,0 +1,630 @@
+/**
+ * ERTK Endpoint Discovery
+ *
+ * Resolves an endpoint file's default export to its `endpoint.<method>()`
+ * call through the TypeScript type checker. Follows const variables,
+ * imports, object spreads and wrapper factories (e.g. `crudEndpoint("tasks")`)
+ * so shared presets can be used without breaking the codegen.
+ */
+
+import {
+	type CallExpression,
+	Node,
+	type SourceFile,
+	SyntaxKind,
+	type Symbol as TsSymbol,
+	type Type,
+} from "ts-morph";
+import { EndpointParseError } from "./diagnostics.js";
+import {
+	joinTemplates,
+	type Template,
+	templateFromNode,
+	type TypeResolutionContext,
+} from "./type-imports.js";
+
+// ─── Types ────────────────────────────────────────────────────
+
+export const HTTP_METHODS = ["get", "post", "put", "patch", "delete"] as const;
+
+export type HttpMethod = (typeof HTTP_METHODS)[number];
+
+/**
+ * `endpoint.infinite()` defines a paginated GET endpoint and
+ * `endpoint.stream()` an event stream (GET unless its config says otherwise).
+ */
+const ENDPOINT_FACTORIES = [...HTTP_METHODS, "infinite", "stream"] as const;
+
+type EndpointFactory = (typeof ENDPOINT_FACTORIES)[number];
+
+/**
+ * Lexical scope of a wrapper factory invocation. Maps the factory's
+ * parameter names to the argument expressions they were called with.
+ */
+export interface Scope {
+	owner: Node | null;
+	bindings: Map<string, ConfigValue>;
+}
+
+/** An expression (or method declaration) together with the scope it was written in. */
+export interface ConfigValue {
+	node: Node;
+	scope: Scope;
+}
+
+export interface ResolvedEndpoint {
+	method: HttpMethod;
+	/** Set for endpoints defined with `endpoint.infinite()` or `endpoint.stream()` */
+	kind: "infinite" | "stream" | null;
+	/** The `endpoint.<method>()` call the default export resolves to */
+	call: CallExpression;
+	/** Scope in effect at the call site */
+	scope: Scope;
+	/** The default export expression in the endpoint file */
+	exportExpression: Node;
+	/**
+	 * The checker's `TResponse`, `TArgs` and `TRoute` of the exported
+	 * definition; empty when they can't be read
+	 */
+	typeArguments: Type[];
+	/** Config properties after spreads are applied, last write wins */
+	properties: Map<string, ConfigValue>;
+}
+
+const ROOT_SCOPE: Scope = { owner: null, bindings: new Map() };
+
+/** Guard against self-referencing consts and recursive factories. */
+const MAX_DEPTH = 32;
+
+// ─── Default Export Resolution ────────────────────────────────
+
+/**
+ * Resolve a source file's default export to an endpoint factory call.
+ * Returns null when the file has no default export or the export is
+ * not an endpoint (callers decide whether that is worth a warning).
+ */
+export function resolveDefaultExport(
+	sourceFile: SourceFile,
+): ResolvedEndpoint | null {
+	const symbol = sourceFile.getDefaultExportSymbol();
+	if (!symbol) return null;
+
+	const exportExpression = getDefaultExportExpression(symbol);
+	if (!exportExpression) return null;
+
+	const found = findEndpointCall({ node: exportExpression, scope: ROOT_SCOPE }, 0);
+	if (!found) return null;
+
+	const configArg = found.call.getArguments()[0];
+	if (!configArg) {
+		throw new EndpointParseError(
+			`\`endpoint.${found.factory}()\` is missing its config argument`,
+			found.call,
+			"missing-config",
+		);
+	}
+
+	const properties = collectObjectProperties(
+		{ node: configArg, scope: found.scope },
+		"endpoint config",
+	);
+	const { factory } = found;
+	const kind = factory === "infinite" || factory === "stream" ? factory : null;
+
+	return {
+		method: kind ? kindMethod(kind, properties) : (factory as HttpMethod),
+		kind,
+		call: found.call,
+		scope: found.scope,
+		exportExpression,
+		typeArguments: definitionTypeArguments(exportExpression.getType()),
+		properties,
+	};
+}
+
+/** Type arguments of `EndpointDefinition`, also behind `endpoint.stream()`'s intersection. */
+function definitionTypeArguments(type: Type): Type[] {
+	const definition = type.isIntersection()
+		? type.getIntersectionTypes().find((t) => t.getTypeArguments().length > 0)
+		: type;
+	return definition?.getTypeArguments() ?? [];
+}
+
+/** HTTP method of an `endpoint.infinite()` or `endpoint.stream()` call. */
+function kindMethod(
+	kind: "infinite" | "stream",
+	properties: Map<string, ConfigValue>,
+): HttpMethod {
+	const methodValue = properties.get("method");
+	if (kind === "infinite" || !methodValue) return "get";
+	const method = evaluateString(methodValue, "method");
+	if (method !== "get" && method !== "post") {
+		throw new EndpointParseError(
+			'A stream\'s `method` must be "get" or "post"',
+			methodValue.node,
+			"unknown-method",
+		);
+	}
+	return method;
+}
+
+function getDefaultExportExpression(symbol: TsSymbol): Node | null {
+	for (const decl of symbol.getDeclarations()) {
+		if (Node.isExportAssignment(decl)) return decl.getExpression();
+		if (Node.isVariableDeclaration(decl)) return decl.getInitializer() ?? null;
+	}
+	return null;
+}
+
+function findEndpointCall(
+	value: ConfigValue,
+	depth: number,
+): { call: CallExpression; factory: EndpointFactory; scope: Scope } | null {
+	if (depth > MAX_DEPTH) return null;
+
+	const resolved = resolveValue(value);
+	const { node, scope } = resolved;
+	if (!Node.isCallExpression(node)) return null;
+
+	const callee = unwrapExpression(node.getExpression());
+
+	// endpoint.<method>(config) or endpoint.infinite(config)
+	if (
+		Node.isPropertyAccessExpression(callee) &&
+		isEndpointFactory(callee.getExpression())
+	) {
+		const factory = callee.getName();
+		if (!(ENDPOINT_FACTORIES as readonly string[]).includes(factory)) {
+			throw new EndpointParseError(
+				`Unknown endpoint method \`${factory}\`. Expected one of: ${ENDPOINT_FACTORIES.join(", ")}`,
+				callee.getNameNode(),
+				"unknown-method",
+			);
+		}
+		return { call: node, factory: factory as EndpointFactory, scope };
+	}
+
+	// wrapperFactory(...args) — evaluate the factory's return expression
+	const fn = resolveFunction({ node: callee, scope });
+	if (!fn) return null;
+
+	const returned = getReturnedExpression(fn);
+	if (!returned) return null;
+
+	return findEndpointCall(
+		{ node: returned, scope: bindArguments(fn, node, scope) },
+		depth + 1,
+	);
+}
+
+/** True when `expr` refers (possibly through an import alias) to ERTK's `endpoint` object. */
+function isEndpointFactory(expr: Node): boolean {
+	const symbol = getTargetSymbol(expr);
+	return symbol?.getName() === "endpoint";
+}
+
+// ─── Wrapper Factories ────────────────────────────────────────
+
+type FunctionLike = Node & {
+	getParameters(): Node[];
+};
+
+function resolveFunction(value: ConfigValue): FunctionLike | null {
+	const resolved = resolveValue(value);
+	const node = resolved.node;
+	if (
+		Node.isFunctionDeclaration(node) ||
+		Node.isArrowFunction(node) ||
+		Node.isFunctionExpression(node)
+	) {
+		return node;
+	}
+	return null;
+}
+
+function getReturnedExpression(fn: FunctionLike): Node | null {
+	if (Node.isArrowFunction(fn)) {
+		const body = fn.getBody();
+		if (!Node.isBlock(body)) return body;
+	}
+	if (
+		!Node.isArrowFunction(fn) &&
+		!Node.isFunctionDeclaration(fn) &&
+		!Node.isFunctionExpression(fn)
+	) {
+		return null;
+	}
+
+	const body = fn.getBody();
+	if (!body || !Node.isBlock(body)) return null;
+
+	// Only the final top-level return is considered; conditional
+	// returns would make the endpoint shape depend on runtime values.
+	const statements = body.getStatements();
+	const last = statements[statements.length - 1];
+	if (last && Node.isReturnStatement(last)) {
+		return last.getExpression() ?? null;
+	}
+	return null;
+}
+
+function bindArguments(
+	fn: FunctionLike,
+	call: CallExpression,
+	callerScope: Scope,
+): Scope {
+	const bindings = new Map<string, ConfigValue>();
+	const args = call.getArguments();
+	const scope: Scope = { owner: fn, bindings };
+
+	fn.getParameters().forEach((param, i) => {
+		if (!Node.isParameterDeclaration(param)) return;
+		const nameNode = param.getNameNode();
+		if (!Node.isIdentifier(nameNode)) return;
+
+		const arg = args[i];
+		if (arg) {
+			bindings.set(nameNode.getText(), { node: arg, scope: callerScope });
+		} else {
+			const init = param.getInitializer();
+			if (init) bindings.set(nameNode.getText(), { node: init, scope });
+		}
+	});
+
+	return scope;
+}
+
+// ─── Value Resolution ─────────────────────────────────────────
+
+/**
+ * Follow identifiers to the value they stand for: a bound factory
+ * argument, a const initializer or a function declaration.
+ * Parentheses, `as` casts and `satisfies` clauses are stripped.
+ */
+export function resolveValue(value: ConfigValue): ConfigValue {
+	let current: ConfigValue = { node: unwrapExpression(value.node), scope: value.scope };
+
+	for (let depth = 0; depth < MAX_DEPTH; depth++) {
+		if (!Node.isIdentifier(current.node)) return current;
+		const next = resolveIdentifier(current.node, current.scope);
+		if (!next) return current;
+		current = { node: unwrapExpression(next.node), scope: next.scope };
+	}
+
+	return current;
+}
+
+function resolveIdentifier(
+	id: Node,
+	scope: Scope,
+): ConfigValue | null {
+	const decl = getTargetSymbol(id)?.getValueDeclaration();
+	if (!decl) return null;
+
+	if (Node.isParameterDeclaration(decl)) {
+		if (decl.getParent() !== scope.owner) return null;
+		return scope.bindings.get(id.getText()) ?? null;
+	}
+
+	if (Node.isVariableDeclaration(decl)) {
+		if (!decl.getVariableStatement()?.getDeclarationKind().startsWith("const")) {
+			return null;
+		}
+		const init = decl.getInitializer();
+		if (!init) return null;
+		return { node: init, scope: isWithin(decl, scope.owner) ? scope : ROOT_SCOPE };
+	}
+
+	if (Node.isFunctionDeclaration(decl)) {
+		return { node: decl, scope: ROOT_SCOPE };
+	}
+
+	return null;
+}
+
+/** Symbol an identifier refers to, looking through `{ name }` shorthand. */
+function getIdentifierSymbol(node: Node): TsSymbol | undefined {
+	const parent = node.getParent();
+	if (
+		parent &&
+		Node.isShorthandPropertyAssignment(parent) &&
+		parent.getNameNode() === node
+	) {
+		return parent.getValueSymbol();
+	}
+	return node.getSymbol();
+}
+
+/** Like getIdentifierSymbol, but follows import aliases to the declaration. */
+function getTargetSymbol(node: Node): TsSymbol | undefined {
+	const symbol = getIdentifierSymbol(node);
+	if (!symbol) return undefined;
+	return symbol.isAlias() ? (symbol.getAliasedSymbol() ?? symbol) : symbol;
+}
+
+function isWithin(node: Node, ancestor: Node | null): boolean {
+	if (!ancestor) return false;
+	return node.getAncestors().includes(ancestor);
+}
+
+/**
+ * Collect the properties of an object-valued config, applying spreads
+ * in source order so later properties override earlier ones.
+ */
+export function collectObjectProperties(
+	value: ConfigValue,
+	what: string,
+	depth = 0,
+): Map<string, ConfigValue> {
+	const resolved = resolveValue(value);
+	const { node, scope } = resolved;
+
+	if (!Node.isObjectLiteralExpression(node) || depth > MAX_DEPTH) {
+		throw new EndpointParseError(
+			`\`${what}\` must resolve to an object literal`,
+			node,
+		);
+	}
+
+	const properties = new Map<string, ConfigValue>();
+
+	for (const prop of node.getProperties()) {
+		if (Node.isSpreadAssignment(prop)) {
+			const spread = collectObjectProperties(
+				{ node: prop.getExpression(), scope },
+				what,
+				depth + 1,
+			);
+			for (const [key, val] of spread) properties.set(key, val);
+			continue;
+		}
+
+		const key = getPropertyKey(prop);
+		if (!key) {
+			throw new EndpointParseError(
+				`Computed property names are not supported in \`${what}\``,
+				prop,
+			);
+		}
+
+		if (Node.isPropertyAssignment(prop)) {
+			properties.set(key, { node: prop.getInitializerOrThrow(), scope });
+		} else if (Node.isShorthandPropertyAssignment(prop)) {
+			properties.set(key, { node: prop.getNameNode(), scope });
+		} else {
+			// Method shorthand and accessors keep the declaration itself
+			properties.set(key, { node: prop, scope });
+		}
+	}
+
+	return properties;
+}
+
+/** Resolve an array-valued config to its elements. */
+export function collectArrayElements(
+	value: ConfigValue,
+	what: string,
+): ConfigValue[] {
+	const { node, scope } = resolveValue(value);
+	if (!Node.isArrayLiteralExpression(node)) {
+		throw new EndpointParseError(
+			`\`${what}\` must resolve to an array literal`,
+			node,
+		);
+	}
+	return node.getElements().map((el) => ({ node: el, scope }));
+}
+
+export function getPropertyKey(prop: Node): string | null {
+	if (
+		!Node.isPropertyAssignment(prop) &&
+		!Node.isMethodDeclaration(prop) &&
+		!Node.isShorthandPropertyAssignment(prop) &&
+		!Node.isGetAccessorDeclaration(prop)
+	) {
+		return null;
+	}
+	const nameNode = prop.getNameNode();
+	if (Node.isIdentifier(nameNode)) return nameNode.getText();
+	if (Node.isStringLiteral(nameNode)) return nameNode.getLiteralValue();
+	return null;
+}
+
+/** Strip parentheses, `as` casts, `satisfies` clauses and non-null assertions. */
+export function unwrapExpression(node: Node): Node {
+	let current = node;
+	while (
+		Node.isParenthesizedExpression(current) ||
+		Node.isAsExpression(current) ||
+		Node.isSatisfiesExpression(current) ||
+		Node.isNonNullExpression(current)
+	) {
+		current = current.getExpression();
+	}
+	return current;
+}
+
+// ─── Constant Evaluation ──────────────────────────────────────
+
+/**
+ * Evaluate a config value to a compile-time string. Handles literals,
+ * template literals and `+` concatenation over constants, falling back
+ * to the checker's literal type (e.g. `NAMES.list` on an `as const` object).
+ */
+export function evaluateString(value: ConfigValue, what: string): string {
+	const result = evaluateConstant(value, 0);
+	if (typeof result === "string") return result;
+	throw new EndpointParseError(
+		`\`${what}\` must be a constant string`,
+		resolveValue(value).node,
+		"non-constant-value",
+	);
+}
+
+export function evaluateBoolean(value: ConfigValue, what: string): boolean {
+	const result = evaluateConstant(value, 0);
+	if (typeof result === "boolean") return result;
+	throw new EndpointParseError(
+		`\`${what}\` must be a constant boolean`,
+		resolveValue(value).node,
+		"non-constant-value",
+	);
+}
+
+export function evaluateNumber(value: ConfigValue, what: string): number {
+	const result = evaluateConstant(value, 0);
+	if (typeof result === "number") return result;
+	throw new EndpointParseError(
+		`\`${what}\` must be a constant number`,
+		resolveValue(value).node,
+		"non-constant-value",
+	);
+}
+
+type Constant = string | number | boolean | undefined;
+
+function evaluateConstant(value: ConfigValue, depth: number): Constant {
+	if (depth > MAX_DEPTH) return undefined;
+
+	const resolved = resolveValue(value);
+	const { node, scope } = resolved;
+
+	if (Node.isStringLiteral(node) || Node.isNoSubstitutionTemplateLiteral(node)) {
+		return node.getLiteralValue();
+	}
+	if (Node.isNumericLiteral(node)) return node.getLiteralValue();
+	if (Node.isTrueLiteral(node)) return true;
+	if (Node.isFalseLiteral(node)) return false;
+
+	if (
+		Node.isPrefixUnaryExpression(node) &&
+		node.getOperatorToken() === SyntaxKind.MinusToken
+	) {
+		const operand = evaluateConstant({ node: node.getOperand(), scope }, depth + 1);
+		if (typeof operand === "number") return -operand;
+	}
+
+	if (Node.isTemplateExpression(node)) {
+		let text = node.getHead().getLiteralText();
+		for (const span of node.getTemplateSpans()) {
+			const part = evaluateConstant({ node: span.getExpression(), scope }, depth + 1);
+			if (part === undefined) return checkerLiteral(node);
+			text += String(part) + span.getLiteral().getLiteralText();
+		}
+		return text;
+	}
+
+	if (Node.isBinaryExpression(node) && node.getOperatorToken().getText() === "+") {
+		const left = evaluateConstant({ node: node.getLeft(), scope }, depth + 1);
+		const right = evaluateConstant({ node: node.getRight(), scope }, depth + 1);
+		if (left === undefined || right === undefined) return checkerLiteral(node);
+		if (typeof left === "number" && typeof right === "number") return left + right;
+		return String(left) + String(right);
+	}
+
+	return checkerLiteral(node);
+}
+
+/** Ask the type checker whether the expression has a single literal type. */
+function checkerLiteral(node: Node): Constant {
+	const type = node.getType();
+	if (type.isStringLiteral() || type.isNumberLiteral()) {
+		return type.getLiteralValue() as string | number;
+	}
+	if (type.isBooleanLiteral()) return type.getText() === "true";
+	return undefined;
+}
+
+// ─── Source Rendering ─────────────────────────────────────────
+
+/**
+ * Render a config value as a standalone expression for the generated
+ * api.ts. Method shorthand becomes a function expression; references to
+ * wrapper-factory parameters are closed over with an immediately
+ * invoked arrow so the emitted code sees the bound arguments. Type
+ * annotations inside the source are resolved like `TResponse` / `TArgs`.
+ */
+export function renderSource(
+	value: ConfigValue,
+	ctx: TypeResolutionContext,
+): Template {
+	const { node, scope } = Node.isIdentifier(unwrapExpression(value.node))
+		? resolveValue(value)
+		: value;
+	const source = Node.isMethodDeclaration(node)
+		? methodToFunction(node, ctx)
+		: templateFromNode(unwrapExpression(node), ctx);
+
+	const used = getReferencedBindings(node, scope);
+	if (used.length === 0) return source;
+
+	const names = used.map(([name]) => name).join(", ");
+	const args: Array<string | Template> = [];
+	used.forEach(([, bound], i) => {
+		if (i > 0) args.push(", ");
+		args.push(renderSource(bound, ctx));
+	});
+	return joinTemplates([`((${names}) => (`, source, "))(", ...args, ")"]);
+}
+
+/**
+ * Render a function-valued config. Throws when the value is not an
+ * inline arrow function, function expression or method shorthand.
+ */
+export function renderFunction(
+	value: ConfigValue,
+	what: string,
+	ctx: TypeResolutionContext,
+): Template {
+	const resolved = Node.isMethodDeclaration(value.node) ? value : resolveValue(value);
+	const { node } = resolved;
+
+	if (Node.isMethodDeclaration(node)) {
+		if (node.isAsync() || node.isGenerator()) {
+			throw new EndpointParseError(`\`${what}\` must be a synchronous function`, node);
+		}
+	} else if (!Node.isArrowFunction(node) && !Node.isFunctionExpression(node)) {
+		throw new EndpointParseError(
+			`\`${what}\` must be an arrow function or function expression`,
+			node,
+		);
+	}
+
+	return renderSource(resolved, ctx);
+}
+
+function methodToFunction(method: Node, ctx: TypeResolutionContext): Template {
+	if (!Node.isMethodDeclaration(method)) return templateFromNode(method, ctx);
+
+	const parts: Array<string | Template> = [
+		method.isAsync() ? "async function (" : "function (",
+	];
+	method.getParameters().forEach((param, i) => {
+		if (i > 0) parts.push(", ");
+		parts.push(templateFromNode(param, ctx));
+	});
+	parts.push(")");
+	const returnType = method.getReturnTypeNode();
+	if (returnType) parts.push(": ", templateFromNode(returnType, ctx));
+	parts.push(" ", templateFromNode(method.getBodyOrThrow(), ctx));
+	return joinTemplates(parts);
+}
+
+function getReferencedBindings(
+	node: Node,
+	scope: Scope,
+): Array<[string, ConfigValue]> {
+	if (scope.bindings.size === 0) return [];
+
+	const used = new Map<string, ConfigValue>();
+	for (const id of node.getDescendants()) {
+		if (!Node.isIdentifier(id)) continue;
+		const name = id.getText();
+		if (used.has(name) || !scope.bindings.has(name)) continue;
+		const decl = getIdentifierSymbol(id)?.getValueDeclaration();
+		if (decl && Node.isParameterDeclaration(decl) && decl.getParent() === scope.owner) {
+			used.set(name, scope.bindings.get(name)!);
+		}
+	}
+	return [...used.entries()];
+}
@@ -1,19 +1,93 @@
-import type { EndpointDefinition } from "./types.js";
+import type {
+	EndpointDefinition,
+	RequestSchema,
+	InfiniteEndpointConfig,
+	Middleware,
+	StreamEndpointConfig,
+	StreamEndpointDefinition,
+} from "./types.js";
+
+/** Page size of `endpoint.infinite()` endpoints without a `pageSize` */
+export const DEFAULT_PAGE_SIZE = 20;
 
 function createFactory(method: EndpointDefinition["method"]) {
-	return <TResponse, TArgs = void>(
-		config: Omit<EndpointDefinition<TResponse, TArgs>, "method">,
-	): EndpointDefinition<TResponse, TArgs> => ({
+	return <
+		TResponse,
+		TArgs = void,
+		TRoute extends string = string,
+		TRequest extends RequestSchema = RequestSchema,
+		const TMiddleware extends readonly Middleware<any>[] = readonly Middleware<any>[],
+	>(
+		config: Omit<
+			EndpointDefinition<TResponse, TArgs, TRoute, TRequest, TMiddleware>,
+			"method"
+		>,
+	): EndpointDefinition<TResponse, TArgs, TRoute, TRequest, TMiddleware> => ({
 		...config,
 		method,
 		protected: config.protected ?? true,
 	});
 }
 
+function createInfiniteFactory() {
+	return <
+		TResponse,
+		TArgs = void,
+		TRoute extends string = string,
+		TRequest extends RequestSchema = RequestSchema,
+		const TMiddleware extends readonly Middleware<any>[] = readonly Middleware<any>[],
+	>(
+		config: InfiniteEndpointConfig<TResponse, TArgs, TRoute, TRequest, TMiddleware>,
+	): EndpointDefinition<TResponse, TArgs, TRoute, TRequest, TMiddleware> => ({
+		...config,
+		method: "get",
+		protected: config.protected ?? true,
+		pagination: {
+			strategy: config.pagination,
+			pageSize: config.pageSize ?? DEFAULT_PAGE_SIZE,
+		},
+		// The route handler always passes `ctx.page` for paginated endpoints
+		handler: config.handler as EndpointDefinition<
+			TResponse,
+			TArgs,
+			TRoute,
+			TRequest,
+			TMiddleware
+		>["handler"],
+	});
+}
+
+function createStreamFactory() {
+	return <
+		TEvent,
+		TArgs = void,
+		TRoute extends string = string,
+		TRequest extends RequestSchema = RequestSchema,
+		const TMiddleware extends readonly Middleware<any>[] = readonly Middleware<any>[],
+	>(
+		config: StreamEndpointConfig<TEvent, TArgs, TRoute, TRequest, TMiddleware>,
+	): StreamEndpointDefinition<TEvent, TArgs, TRoute, TRequest, TMiddleware> => ({
+		...config,
+		method: config.method ?? "get",
+		protected: config.protected ?? true,
+		stream: true,
+		// Tags see the cached event list, not a single event
+		tags: config.tags as EndpointDefinition<
+			TEvent,
+			TArgs,
+			TRoute,
+			TRequest,
+			TMiddleware
+		>["tags"],
+	});
+}
+
 export const endpoint = {
 	get: createFactory("get"),
 	post: createFactory("post"),
 	put: createFactory("put"),
 	patch: createFactory("patch"),
 	delete: createFactory("delete"),
+	infinite: createInfiniteFactory(),
+	stream: createStreamFactory(),
 };
@@ -0,0 +1,173 @@
+/**
+ * ERTK HTTP Errors
+ *
+ * Errors a handler throws to answer with a status and a machine-readable
+ * `code`, and the body every error response shares. The codes of the
+ * classes in an endpoint's `errors` end up in the generated error types.
+ */
+
+// ─── Types ────────────────────────────────────────────────────
+
+/** Body of every error response sent by `configureHandler`. */
+export interface ErrorBody<TCode extends string = string> {
+	/** Human-readable message */
+	error: string;
+	code: TCode;
+	/** Validation issues for `VALIDATION_FAILED`, or what an `HttpError` carries */
+	details?: unknown;
+}
+
+/**
+ * An error response as RTK Query's `FetchBaseQueryError` holds it, e.g.
+ * the `error` of a hook.
+ */
+export interface ApiError<TCode extends string = string> {
+	status: number;
+	data: ErrorBody<TCode>;
+}
+
+/** Codes of the error responses `configureHandler` sends by itself. */
+export type BuiltInErrorCode =
+	| "BAD_REQUEST"
+	| "VALIDATION_FAILED"
+	| "UNAUTHORIZED"
+	| "FORBIDDEN"
+	| "RATE_LIMITED"
+	| "NOT_IMPLEMENTED"
+	| "INTERNAL_ERROR";
+
+/** An `HttpError` subclass, as listed in an endpoint's `errors`. */
+export interface HttpErrorClass<TCode extends string = string> {
+	new (message?: string, options?: HttpErrorOptions): HttpError;
+	readonly status: number;
+	readonly code: TCode;
+}
+
+export interface HttpErrorOptions {
+	/** Sent as the body's `details` */
+	details?: unknown;
+	cause?: unknown;
+}
+
+// ─── Errors ───────────────────────────────────────────────────
+
+/** Codes of statuses thrown without an `HttpError`, e.g. `{ status: 404 }`. */
+const STATUS_CODES: Record<number, string> = {
+	400: "BAD_REQUEST",
+	401: "UNAUTHORIZED",
+	403: "FORBIDDEN",
+	404: "NOT_FOUND",
+	409: "CONFLICT",
+	422: "UNPROCESSABLE_ENTITY",
+	429: "RATE_LIMITED",
+	500: "INTERNAL_ERROR",
+	501: "NOT_IMPLEMENTED",
+};
+
+/** Code of an error response with no code of its own, e.g. `HTTP_418`. */
+export function codeForStatus(status: number): string {
+	return STATUS_CODES[status] ?? `HTTP_${status}`;
+}
+
+/** `NOT_FOUND` → `Not found` */
+export function messageForCode(code: string): string {
+	const words = code.toLowerCase().replace(/_/g, " ");
+	return words.charAt(0).toUpperCase() + words.slice(1);
+}
+
+/**
+ * Base class of errors sent as `{ error, code, details }`. Subclasses
+ * set the static `status` and `code`; declare them with literal types
+ * so the generator can read them.
+ *
+ * @example
+ * ```typescript
+ * export class TaskLocked extends HttpError {
+ *   static readonly status = 423;
+ *   static readonly code = "TASK_LOCKED";
+ * }
+ *
+ * throw new TaskLocked("Task is being edited", { details: { by: lock.userId } });
+ * ```
+ */
+export class HttpError extends Error {
+	static readonly status: number = 500;
+	static readonly code: string = "INTERNAL_ERROR";
+
+	readonly status: number;
+	readonly code: string;
+	readonly details?: unknown;
+
+	constructor(message?: string, options: HttpErrorOptions = {}) {
+		const type = new.target as HttpErrorClass;
+		super(message ?? messageForCode(type.code), { cause: options.cause });
+		this.name = type.name;
+		this.status = type.status;
+		this.code = type.code;
+		this.details = options.details;
+	}
+
+	/** The response body for this error. */
+	toJSON(): ErrorBody {
+		return {
+			error: this.message,
+			code: this.code,
+			...(this.details !== undefined && { details: this.details }),
+		};
+	}
+}
+
+export class BadRequest extends HttpError {
+	static readonly status = 400;
+	static readonly code = "BAD_REQUEST";
+}
+
+export class Unauthorized extends HttpError {
+	static readonly status = 401;
+	static readonly code = "UNAUTHORIZED";
+}
+
+export class Forbidden extends HttpError {
+	static readonly status = 403;
+	static readonly code = "FORBIDDEN";
+}
+
+export class NotFound extends HttpError {
+	static readonly status = 404;
+	static readonly code = "NOT_FOUND";
+}
+
+export class Conflict extends HttpError {
+	static readonly status = 409;
+	static readonly code = "CONFLICT";
+}
+
+export class UnprocessableEntity extends HttpError {
+	static readonly status = 422;
+	static readonly code = "UNPROCESSABLE_ENTITY";
+}
+
+export class TooManyRequests extends HttpError {
+	static readonly status = 429;
+	static readonly code = "RATE_LIMITED";
+}
+
+// ─── Guards ───────────────────────────────────────────────────
+
+/**
+ * Whether `error` is an error response from `configureHandler`, with
+ * one of `codes` if given. Used by the generated guards in `errors.ts`.
+ */
+export function isApiError<TCode extends string = string>(
+	error: unknown,
+	codes?: readonly TCode[],
+): error is ApiError<TCode> {
+	if (typeof error !== "object" || error === null) return false;
+	const { status, data } = error as { status?: unknown; data?: unknown };
+	if (typeof status !== "number" || typeof data !== "object" || data === null) {
+		return false;
+	}
+	const { code } = data as { code?: unknown };
+	if (typeof code !== "string") return false;
+	return !codes || (codes as readonly string[]).includes(code);
+}
@@ -0,0 +1,103 @@
+/**
+ * ERTK Mock Fixtures
+ *
+ * Builds a placeholder value for an endpoint's `TResponse` with the type
+ * checker, rendered as TypeScript source for `mocks.ts`. Values are the
+ * smallest that type-check: optional properties are left out, arrays
+ * hold one element and unions use their first non-null member.
+ */
+
+import type { Node, ts, Type } from "ts-morph";
+
+// ─── Types ────────────────────────────────────────────────────
+
+interface FixtureContext {
+	/** Location the types are resolved at */
+	node: Node;
+	/** Object types being expanded, to cut off recursive types */
+	stack: Set<ts.Type>;
+}
+
+const IDENTIFIER = /^[A-Za-z_$][\w$]*$/;
+
+/** Recursive or unrepresentable values type-check but carry no data. */
+const PLACEHOLDER = "null as never";
+
+// ─── Rendering ────────────────────────────────────────────────
+
+/** Source of a value assignable to `type`, e.g. `[{ id: "id", done: false }]`. */
+export function fixtureFromType(type: Type, node: Node): string {
+	return renderValue(type, { node, stack: new Set() }, "string");
+}
+
+/**
+ * @param label Value used for plain strings, the property name when
+ * there is one so fixtures read like data
+ */
+function renderValue(type: Type, ctx: FixtureContext, label: string): string {
+	if (type.isAny() || type.isUnknown() || type.isNull()) return "null";
+	if (type.isUndefined() || type.isVoid()) return "undefined";
+	// Enum members aren't assignable from their values, only the wire format matters
+	if (type.isEnumLiteral()) return `${JSON.stringify(type.getLiteralValue())} as never`;
+	if (type.isStringLiteral() || type.isNumberLiteral()) {
+		return JSON.stringify(type.getLiteralValue());
+	}
+	if (type.isBooleanLiteral()) return type.getText();
+	if (type.isString()) return JSON.stringify(label);
+	if (type.isTemplateLiteral()) return `${JSON.stringify(label)} as never`;
+	if (type.isNumber()) return "0";
+	if (type.isBoolean()) return "false";
+	if (type.isUnion()) return renderUnion(type, ctx, label);
+
+	if (type.getSymbol()?.getName() === "Date") return "new Date(0)";
+
+	if (type.isArray() || type.isTuple()) {
+		const elements = type.isTuple()
+			? type.getTupleElements()
+			: [type.getArrayElementTypeOrThrow()];
+		// A recursive element (e.g. `children: Node[]`) ends the tree
+		if (elements.some((element) => ctx.stack.has(element.compilerType))) return "[]";
+		const items = elements.map((element) => renderValue(element, ctx, "string"));
+		return `[${items.join(", ")}]`;
+	}
+
+	if (type.isObject() || type.isIntersection()) {
+		if (type.getCallSignatures().length > 0) return PLACEHOLDER;
+		return renderObject(type, ctx);
+	}
+
+	return PLACEHOLDER;
+}
+
+function renderUnion(type: Type, ctx: FixtureContext, label: string): string {
+	const members = type.getUnionTypes();
+	const present = members.filter((m) => !m.isNull() && !m.isUndefined());
+	if (present.length === 0) {
+		return members.some((m) => m.isNull()) ? "null" : "undefined";
+	}
+	// `boolean` is the union `true | false`
+	if (present.every((m) => m.isBooleanLiteral())) return "false";
+	// Prefer a member that doesn't recurse, e.g. `null` over a parent node
+	const first = present.find((m) => !ctx.stack.has(m.compilerType)) ?? present[0];
+	if (ctx.stack.has(first.compilerType) && members.some((m) => m.isNull())) {
+		return "null";
+	}
+	return renderValue(first, ctx, label);
+}
+
+function renderObject(type: Type, ctx: FixtureContext): string {
+	if (ctx.stack.has(type.compilerType)) return PLACEHOLDER;
+	ctx.stack.add(type.compilerType);
+
+	const entries: string[] = [];
+	for (const property of type.getProperties()) {
+		if (property.isOptional()) continue;
+		const name = property.getName();
+		const value = renderValue(property.getTypeAtLocation(ctx.node), ctx, name);
+		const key = IDENTIFIER.test(name) ? name : JSON.stringify(name);
+		entries.push(`${key}: ${value}`);
+	}
+
+	ctx.stack.delete(type.compilerType);
+	return entries.length > 0 ? `{ ${entries.join(", ")} }` : "{}";
+}
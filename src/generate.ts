@@ -5,40 +5,153 @@
  * - api.ts (RTK Query API + hooks)
  * - store.ts (Redux store config)
  * - invalidation.ts (cache invalidation helpers)
+ * - client.ts (typed fetch client for code without React)
+ * - errors.ts (typed error unions and guards per endpoint)
+ * - mocks.ts (MSW handlers) — if mocks are enabled
+ * - permissions.ts (access rules for the UI) — if permissions are enabled
  * - route.ts files (Next.js route handlers) — if routes config is present
  */
 
-import { Project, SyntaxKind } from "ts-morph";
+import { Node, Project, type SourceFile, type Type } from "ts-morph";
 import * as crypto from "node:crypto";
 import * as fs from "node:fs";
 import * as path from "node:path";
-import type { ResolvedConfig } from "./types.js";
+import {
+	type ConfigValue,
+	collectArrayElements,
+	collectObjectProperties,
+	evaluateBoolean,
+	evaluateNumber,
+	evaluateString,
+	renderFunction,
+	renderSource,
+	resolveDefaultExport,
+	resolveValue,
+	type ResolvedEndpoint,
+} from "./discovery.js";
+import {
+	type Diagnostic,
+	diagnosticAt,
+	diagnosticAtLocation,
+	diagnosticForFile,
+	diagnosticFromError,
+	EndpointParseError,
+	formatDiagnostic,
+	formatDiagnosticsJson,
+	locationOf,
+	type RelatedLocation,
+	type SourceLocation,
+	summarizeDiagnostics,
+} from "./diagnostics.js";
+import { fixtureFromType } from "./fixtures.js";
+import {
+	createTypeNamer,
+	joinTemplates,
+	plainTemplate,
+	type Template,
+	templateFromNode,
+	templateFromType,
+	type TypeNamer,
+	type TypeResolutionContext,
+} from "./type-imports.js";
+import { DEFAULT_PAGE_SIZE } from "./endpoint.js";
+import type { PaginationStrategy, ResolvedConfig } from "./types.js";
 
 // ─── Internal Types ───────────────────────────────────────────
 
-interface ParsedEndpoint {
+/** An endpoint file as read by the codegen. Shared with `ertk openapi`. */
+export interface ParsedEndpoint {
 	name: string;
 	method: string;
 	filePath: string;
 	importPath: string;
 	routePath: string;
+	/** Dynamic segments of `routePath`, in order */
+	routeParams: RouteParam[];
 	isProtected: boolean;
+	/** Set when the endpoint has an `authorize` rule */
+	authorize: ParsedAuthorize | null;
+	/** `HttpError` classes listed in `errors` */
+	errors: ParsedError[];
 	hasRequest: boolean;
+	hasResponse: boolean;
 	hasHandler: boolean;
 
-	responseType: string;
-	responseTypeImport: string | null;
-	argsType: string;
-	argsTypeImport: string | null;
-	queryFnSource: string;
-	endpointType: "query" | "mutation";
-
-	providesTagsSource: string | null;
-	invalidatesTagsSource: string | null;
-	optimisticSource: string | null;
+	responseType: Template;
+	argsType: Template;
+	queryFnSource: Template | null;
+	endpointType: "query" | "infiniteQuery" | "mutation";
+	/** Set for `endpoint.infinite()` endpoints */
+	pagination: ParsedPagination | null;
+	/** Set for `endpoint.stream()` endpoints */
+	stream: ParsedStream | null;
+	/** Whether the body is sent as `multipart/form-data` */
+	multipart: boolean;
+	/** Set when `request` has a schema per request part */
+	requestParts: ParsedRequestParts | null;
+
+	providesTagsSource: Template | null;
+	invalidatesTagsSource: Template | null;
+	optimistic: ParsedOptimistic | null;
 	maxRetries: number | null;
+	/** The endpoint's `mock`, or a placeholder built from `TResponse` when mocks are on */
+	mockSource: Template | null;
+
+	/** Where `name` is written, for duplicate-name diagnostics */
+	nameLocation: SourceLocation;
+	/** The default export, for route-conflict diagnostics */
+	exportLocation: SourceLocation;
+}
+
+/** An endpoint's `authorize`: required roles and permissions, or a server-side predicate. */
+interface ParsedAuthorize {
+	roles: string[];
+	permissions: string[];
+	/** Whether it is a predicate, which only the server can evaluate */
+	custom: boolean;
+}
+
+/** An `HttpError` class an endpoint declares it may throw. */
+export interface ParsedError {
+	code: string;
+	status: number;
+}
+
+/** Args fields a `{ params, query, body, headers }` request sends outside the body. */
+interface ParsedRequestParts {
+	query: string[];
+	headers: string[];
+}
+
+interface ParsedOptimisticUpdate {
+	target: string;
+	argsSource: Template;
+	updateSource: Template;
+	conditionSource: Template | null;
+}
+
+interface ParsedOptimistic {
+	kind: "single" | "multi";
+	updates: ParsedOptimisticUpdate[];
+}
+
+interface ParsedPagination {
+	strategy: PaginationStrategy;
+	pageSize: number;
+	maxPages: number | null;
+	/** `nextCursor` for cursor pagination, `items` for offset */
+	pageFnSource: Template;
+}
+
+interface ParsedStream {
+	/** `onEvent`, or null to append events */
+	onEventSource: Template | null;
+}
 
-	typeImports: Map<string, Set<string>>;
+export interface RouteParam {
+	name: string;
+	/** `[id]`, `[...slug]` or `[[...slug]]` */
+	kind: "single" | "catch-all" | "optional-catch-all";
 }
 
 interface RouteGroup {
@@ -53,201 +166,172 @@ function parseEndpointFile(
 	project: Project,
 	filePath: string,
 	config: ResolvedConfig,
+	diagnostics: Diagnostic[],
 ): ParsedEndpoint | null {
 	const absPath = path.join(config.endpointsDir, filePath);
 	const sourceFile = project.addSourceFileAtPath(absPath);
 
-	// Find the default export
-	const defaultExport = sourceFile.getDefaultExportSymbol();
-	if (!defaultExport) {
-		console.warn(`ERTK: No default export in ${filePath}, skipping`);
+	try {
+		return parseEndpointSource(sourceFile, filePath, config, diagnostics);
+	} catch (err) {
+		if (!(err instanceof EndpointParseError)) throw err;
+		diagnostics.push(diagnosticFromError(err));
 		return null;
 	}
+}
 
-	// Find the endpoint.{method}(...) call
-	const callExpressions = sourceFile.getDescendantsOfKind(
-		SyntaxKind.CallExpression,
-	);
-
-	let endpointCall = null;
-	let method = "";
-
-	for (const call of callExpressions) {
-		const expr = call.getExpression();
-		if (expr.getKind() === SyntaxKind.PropertyAccessExpression) {
-			const propAccess = expr.asKindOrThrow(
-				SyntaxKind.PropertyAccessExpression,
-			);
-			const objectText = propAccess.getExpression().getText();
-			const methodName = propAccess.getName();
-
-			if (
-				objectText === "endpoint" &&
-				["get", "post", "put", "patch", "delete"].includes(methodName)
-			) {
-				endpointCall = call;
-				method = methodName;
-				break;
-			}
-		}
-	}
-
-	if (!endpointCall || !method) {
-		console.warn(
-			`ERTK: No endpoint.{method}() call found in ${filePath}, skipping`,
+function parseEndpointSource(
+	sourceFile: SourceFile,
+	filePath: string,
+	config: ResolvedConfig,
+	diagnostics: Diagnostic[],
+): ParsedEndpoint | null {
+	const project = sourceFile.getProject();
+
+	// Resolve the default export to an endpoint.{method}(...) call
+	if (!sourceFile.getDefaultExportSymbol()) {
+		diagnostics.push(
+			diagnosticForFile(
+				sourceFile,
+				"warning",
+				"no-default-export",
+				"File has no default export and was skipped",
+			),
 		);
 		return null;
 	}
 
-	// Extract type arguments
-	const typeArgs = endpointCall.getTypeArguments();
-	const responseType = typeArgs[0]?.getText() ?? "unknown";
-	const argsType = typeArgs[1]?.getText() ?? "void";
-
-	// Extract config object
-	const configArg = endpointCall.getArguments()[0];
-	if (
-		!configArg ||
-		configArg.getKind() !== SyntaxKind.ObjectLiteralExpression
-	) {
-		console.warn(
-			`ERTK: Config argument not found in ${filePath}, skipping`,
+	const resolved = resolveDefaultExport(sourceFile);
+	if (!resolved) {
+		diagnostics.push(
+			diagnosticForFile(
+				sourceFile,
+				"warning",
+				"not-an-endpoint",
+				"Default export is not an endpoint.{method}() call and was skipped",
+			),
 		);
 		return null;
 	}
 
-	const configObj = configArg.asKindOrThrow(
-		SyntaxKind.ObjectLiteralExpression,
-	);
+	const { method, properties } = resolved;
+	const ctx: TypeResolutionContext = { project, config, hoisted: new Map() };
 
-	// Extract name
-	const nameProp = configObj.getProperty("name");
-	const name = nameProp
-		? nameProp
-				.asKindOrThrow(SyntaxKind.PropertyAssignment)
-				.getInitializerOrThrow()
-				.getText()
-				.replace(/['"]/g, "")
-		: "";
+	// Extract type arguments
+	const { responseType, argsType } = resolveTypeArguments(resolved, ctx);
 
-	if (!name) {
-		console.warn(`ERTK: No name property in ${filePath}, skipping`);
+	// Extract name
+	const nameValue = properties.get("name");
+	const name = nameValue ? evaluateString(nameValue, "name") : "";
+
+	if (!nameValue || !name) {
+		diagnostics.push(
+			diagnosticAt(
+				nameValue?.node ?? resolved.call,
+				"error",
+				"missing-name",
+				"Endpoint is missing a `name`",
+			),
+		);
 		return null;
 	}
 
-	// Extract protected
-	const protectedProp = configObj.getProperty("protected");
-	const isProtected = protectedProp
-		? protectedProp
-				.asKindOrThrow(SyntaxKind.PropertyAssignment)
-				.getInitializerOrThrow()
-				.getText() !== "false"
-		: true;
+	// Extract protected and authorize; an access rule needs a user
+	const authorizeValue = properties.get("authorize");
+	const authorize = authorizeValue ? parseAuthorize(authorizeValue) : null;
+	const protectedValue = properties.get("protected");
+	const isProtected =
+		authorize !== null ||
+		(protectedValue ? evaluateBoolean(protectedValue, "protected") : true);
 
 	// Check for request schema
-	const requestProp = configObj.getProperty("request");
-	const hasRequest = !!requestProp;
+	const requestValue = properties.get("request");
+	const hasRequest = requestValue !== undefined;
+	const requestParts = requestValue ? parseRequestParts(requestValue) : null;
+	const hasResponse = properties.has("response");
 
 	// Check for handler
-	const handlerProp = configObj.getProperty("handler");
-	const hasHandler = !!handlerProp;
+	const hasHandler = properties.has("handler");
+	const errorsValue = properties.get("errors");
+	const errors = errorsValue ? parseErrors(errorsValue) : [];
 
 	// Extract query function source
-	const queryProp = configObj.getProperty("query");
-	let queryFnSource = "";
-	if (queryProp) {
-		const init = queryProp
-			.asKindOrThrow(SyntaxKind.PropertyAssignment)
-			.getInitializerOrThrow();
-		queryFnSource = init.getText();
-	}
+	const queryValue = properties.get("query");
+	const queryFnSource = queryValue ? renderSource(queryValue, ctx) : null;
 
 	// Extract tags
-	let providesTagsSource: string | null = null;
-	let invalidatesTagsSource: string | null = null;
-
-	const tagsProp = configObj.getProperty("tags");
-	if (tagsProp) {
-		const tagsObj = tagsProp
-			.asKindOrThrow(SyntaxKind.PropertyAssignment)
-			.getInitializerOrThrow();
-
-		if (tagsObj.getKind() === SyntaxKind.ObjectLiteralExpression) {
-			const tagsObjLit = tagsObj.asKindOrThrow(
-				SyntaxKind.ObjectLiteralExpression,
-			);
+	let providesTagsSource: Template | null = null;
+	let invalidatesTagsSource: Template | null = null;
 
-			const providesProp = tagsObjLit.getProperty("provides");
-			if (providesProp) {
-				providesTagsSource = providesProp
-					.asKindOrThrow(SyntaxKind.PropertyAssignment)
-					.getInitializerOrThrow()
-					.getText();
-			}
+	const tagsValue = properties.get("tags");
+	if (tagsValue) {
+		const tags = collectObjectProperties(tagsValue, "tags");
 
-			const invalidatesProp = tagsObjLit.getProperty("invalidates");
-			if (invalidatesProp) {
-				invalidatesTagsSource = invalidatesProp
-					.asKindOrThrow(SyntaxKind.PropertyAssignment)
-					.getInitializerOrThrow()
-					.getText();
-			}
+		const providesValue = tags.get("provides");
+		if (providesValue) {
+			providesTagsSource = renderSource(providesValue, ctx);
+		}
+
+		const invalidatesValue = tags.get("invalidates");
+		if (invalidatesValue) {
+			invalidatesTagsSource = renderSource(invalidatesValue, ctx);
 		}
 	}
 
 	// Extract optimistic updates
-	const optimisticProp = configObj.getProperty("optimistic");
-	let optimisticSource: string | null = null;
-	if (optimisticProp) {
-		optimisticSource = optimisticProp
-			.asKindOrThrow(SyntaxKind.PropertyAssignment)
-			.getInitializerOrThrow()
-			.getText();
+	const optimisticValue = properties.get("optimistic");
+	let optimistic: ParsedOptimistic | null = null;
+	if (optimisticValue) {
+		optimistic = parseOptimistic(optimisticValue, ctx);
 	}
 
 	// Extract maxRetries
-	const maxRetriesProp = configObj.getProperty("maxRetries");
+	const maxRetriesValue = properties.get("maxRetries");
 	let maxRetries: number | null = null;
-	if (maxRetriesProp) {
-		const val = parseInt(
-			maxRetriesProp
-				.asKindOrThrow(SyntaxKind.PropertyAssignment)
-				.getInitializerOrThrow()
-				.getText(),
-			10,
-		);
-		if (!Number.isNaN(val) && val > 0) {
-			maxRetries = val;
+	if (maxRetriesValue) {
+		const val = evaluateNumber(maxRetriesValue, "maxRetries");
+		if (val > 0) {
+			maxRetries = Math.floor(val);
 		}
 	}
 
-	// Derive route path from file path
-	const routePath = deriveRoutePath(filePath, config);
-	const endpointType = method === "get" ? "query" : "mutation";
-
-	// Resolve type imports
-	const typeImports = new Map<string, Set<string>>();
-	let responseTypeImport: string | null = null;
-	let argsTypeImport: string | null = null;
-
-	for (const importDecl of sourceFile.getImportDeclarations()) {
-		const namedImports = importDecl.getNamedImports();
-		for (const named of namedImports) {
-			const importName = named.getName();
-			const moduleSpecifier = importDecl.getModuleSpecifierValue();
-			const aliasPath = resolveToAlias(moduleSpecifier, absPath, config);
-
-			if (responseType.includes(importName)) {
-				responseTypeImport = aliasPath;
-				addToMapSet(typeImports, aliasPath, importName);
-			}
-			if (argsType.includes(importName)) {
-				argsTypeImport = aliasPath;
-				addToMapSet(typeImports, aliasPath, importName);
-			}
-		}
+	// Extract the mock response, falling back to a fixture from TResponse
+	const mockValue = properties.get("mock");
+	let mockSource: Template | null = null;
+	if (mockValue) {
+		mockSource = renderSource(mockValue, ctx);
+	} else if (config.mocks) {
+		const checkerArgs = resolved.typeArguments;
+		mockSource = plainTemplate(
+			checkerArgs.length >= 2
+				? fixtureFromType(checkerArgs[0], resolved.exportExpression)
+				: "null",
+		);
 	}
 
+	// Derive route path and dynamic segments from file path
+	const routePath = deriveRoutePath(filePath, config);
+	const routeParams = parseRouteParams(routePath, sourceFile);
+	checkRouteType(resolved, routePath);
+	const pagination = resolved.kind === "infinite"
+		? parsePagination(resolved, properties, ctx)
+		: null;
+	const onEventValue = properties.get("onEvent");
+	const stream: ParsedStream | null =
+		resolved.kind === "stream"
+			? {
+					onEventSource: onEventValue
+						? renderFunction(onEventValue, "onEvent", ctx)
+						: null,
+				}
+			: null;
+	const multipart = parseMultipart(properties, method);
+	const endpointType = pagination
+		? "infiniteQuery"
+		: method === "get" || stream
+			? "query"
+			: "mutation";
+
 	// Build import path for endpoint file
 	const endpointsRelative = path.relative(config.aliasRoot, config.endpointsDir);
 	const importPath = `${config.pathAlias}/${endpointsRelative}/${filePath.replace(/\.ts$/, "")}`;
@@ -258,49 +342,343 @@ function parseEndpointFile(
 		filePath,
 		importPath,
 		routePath,
+		routeParams,
 		isProtected,
+		authorize,
+		errors,
 		hasRequest,
+		hasResponse,
 		hasHandler,
 		responseType,
-		responseTypeImport,
 		argsType,
-		argsTypeImport,
 		queryFnSource,
 		endpointType,
+		pagination,
+		stream,
+		multipart,
+		requestParts,
 		providesTagsSource,
 		invalidatesTagsSource,
-		optimisticSource,
+		optimistic,
 		maxRetries,
-		typeImports,
+		mockSource,
+		nameLocation: locationOf(nameValue.node),
+		exportLocation: locationOf(resolved.exportExpression),
 	};
 }
 
-function resolveToAlias(
-	moduleSpecifier: string,
-	fromFile: string,
-	config: ResolvedConfig,
-): string {
-	if (moduleSpecifier.startsWith(config.pathAlias + "/")) {
-		return moduleSpecifier;
+/**
+ * Read `TResponse` / `TArgs` for the generated builder call. Type arguments
+ * written in the endpoint file keep their source form with references
+ * resolved to imports; anything else (wrapper factories, inferred generics,
+ * `typeof` a non-exported const) falls back to the checker's view of the
+ * default export's `EndpointDefinition<TResponse, TArgs>` type.
+ */
+function resolveTypeArguments(
+	resolved: ResolvedEndpoint,
+	ctx: TypeResolutionContext,
+): {
+	responseType: Template;
+	argsType: Template;
+} {
+	const { call, scope, exportExpression, properties } = resolved;
+	const typeArgs = call.getTypeArguments();
+	const writtenInEndpointFile =
+		scope.owner === null &&
+		call.getSourceFile() === exportExpression.getSourceFile();
+	const checkerArgs = resolved.typeArguments;
+
+	const resolveArg = (index: number, fallback: string): Template => {
+		const written = writtenInEndpointFile ? typeArgs[index] : undefined;
+		if (written) {
+			try {
+				return templateFromNode(written, ctx);
+			} catch (err) {
+				if (!(err instanceof EndpointParseError)) throw err;
+			}
+		}
+		const checked = checkerArgs.length >= 2 ? checkerArgs[index] : undefined;
+		if (!checked) return plainTemplate(fallback);
+		// Without a `TArgs`, a per-part request's schemas describe the args
+		const requestValue = properties.get("request");
+		if (index === 1 && !written && checked.isVoid() && requestValue) {
+			const partArgs = argsFromRequestParts(requestValue, ctx);
+			if (partArgs) return partArgs;
+		}
+		return templateFromType(checked, written ?? exportExpression, ctx);
+	};
+
+	return {
+		responseType: resolveArg(0, "unknown"),
+		argsType: resolveArg(1, "void"),
+	};
+}
+
+// ─── Request Parsing ──────────────────────────────────────────
+
+/**
+ * Field names of the `query` and `headers` schemas of a per-part
+ * `request`, read from the output types of their `parse`. Null for a
+ * single schema.
+ */
+function parseRequestParts(requestValue: ConfigValue): ParsedRequestParts | null {
+	if (requestValue.node.getType().getProperty("parse")) return null;
+
+	const fieldsOf = (part: "query" | "headers"): string[] =>
+		requestPartOutput(requestValue, part)
+			?.getProperties()
+			.map((property) => property.getName()) ?? [];
+	return { query: fieldsOf("query"), headers: fieldsOf("headers") };
+}
+
+/** Output type of the `parse` of one schema of a per-part `request`. */
+function requestPartOutput(
+	requestValue: ConfigValue,
+	part: "params" | "query" | "body" | "headers",
+): Type | undefined {
+	const { node } = requestValue;
+	return node
+		.getType()
+		.getProperty(part)
+		?.getTypeAtLocation(node)
+		.getNonNullableType()
+		.getProperty("parse")
+		?.getTypeAtLocation(node)
+		.getCallSignatures()[0]
+		?.getReturnType();
+}
+
+/** `TArgs` as the intersection of a per-part request's schema outputs. */
+function argsFromRequestParts(
+	requestValue: ConfigValue,
+	ctx: TypeResolutionContext,
+): Template | null {
+	if (requestValue.node.getType().getProperty("parse")) return null;
+
+	const parts: Array<string | Template> = [];
+	for (const part of ["params", "query", "body", "headers"] as const) {
+		const output = requestPartOutput(requestValue, part);
+		if (!output) continue;
+		if (parts.length > 0) parts.push(" & ");
+		const template = templateFromType(output, requestValue.node, ctx);
+		parts.push(...(output.isUnion() ? ["(", template, ")"] : [template]));
+	}
+	return parts.length > 0 ? joinTemplates(parts) : null;
+}
+
+// ─── Authorization Parsing ────────────────────────────────────
+
+/** Read the roles and permissions of an `authorize` rule; a function is custom. */
+function parseAuthorize(authorizeValue: ConfigValue): ParsedAuthorize {
+	const { node } = resolveValue(authorizeValue);
+	if (!Node.isObjectLiteralExpression(node)) {
+		return { roles: [], permissions: [], custom: true };
 	}
-	// Resolve relative path to absolute, then convert to alias
-	const dir = path.dirname(fromFile);
-	const resolved = path.resolve(dir, moduleSpecifier);
-	if (resolved.startsWith(config.aliasRoot)) {
-		return `${config.pathAlias}/${path.relative(config.aliasRoot, resolved).replace(/\.ts$/, "")}`;
+	const rule = collectObjectProperties(authorizeValue, "authorize");
+	const strings = (key: "roles" | "permissions"): string[] => {
+		const value = rule.get(key);
+		if (!value) return [];
+		return collectArrayElements(value, `authorize.${key}`).map((element) =>
+			evaluateString(element, `authorize.${key}`),
+		);
+	};
+	return { roles: strings("roles"), permissions: strings("permissions"), custom: false };
+}
+
+// ─── Error Parsing ────────────────────────────────────────────
+
+/** Read the static `code` and `status` of each `HttpError` class in `errors`. */
+function parseErrors(errorsValue: ConfigValue): ParsedError[] {
+	return collectArrayElements(errorsValue, "errors").map(({ node }) => {
+		const type = node.getType();
+		const code = type.getProperty("code")?.getTypeAtLocation(node);
+		const status = type.getProperty("status")?.getTypeAtLocation(node);
+		if (!code?.isStringLiteral() || !status?.isNumberLiteral()) {
+			throw new EndpointParseError(
+				"`errors` entries must be `HttpError` classes with a literal static `code` and `status`",
+				node,
+				"invalid-errors",
+			);
+		}
+		return {
+			code: code.getLiteralValue() as string,
+			status: status.getLiteralValue() as number,
+		};
+	});
+}
+
+// ─── Multipart Parsing ────────────────────────────────────────
+
+/** Whether the endpoint takes a form body. GET and DELETE have no body to send. */
+function parseMultipart(
+	properties: Map<string, ConfigValue>,
+	method: string,
+): boolean {
+	const multipartValue = properties.get("multipart");
+	if (!multipartValue) return false;
+	// `true` or a limits object; only the presence matters to the client
+	const enabled = !Node.isFalseLiteral(multipartValue.node);
+	if (enabled && (method === "get" || method === "delete")) {
+		throw new EndpointParseError(
+			`\`multipart\` needs a request body, which ${method.toUpperCase()} requests don't have`,
+			multipartValue.node,
+			"invalid-multipart",
+		);
 	}
-	return moduleSpecifier;
+	return enabled;
 }
 
-function addToMapSet(
-	map: Map<string, Set<string>>,
-	key: string,
-	value: string,
-): void {
-	if (!map.has(key)) {
-		map.set(key, new Set());
+// ─── Pagination Parsing ───────────────────────────────────────
+
+/** Read the paging options of an `endpoint.infinite()` config. */
+function parsePagination(
+	resolved: ResolvedEndpoint,
+	properties: Map<string, ConfigValue>,
+	ctx: TypeResolutionContext,
+): ParsedPagination {
+	const strategyValue = properties.get("pagination");
+	const strategy = strategyValue
+		? evaluateString(strategyValue, "pagination")
+		: null;
+	if (strategy !== "cursor" && strategy !== "offset") {
+		throw new EndpointParseError(
+			'`pagination` must be "cursor" or "offset"',
+			strategyValue?.node ?? resolved.call,
+			"invalid-pagination",
+		);
+	}
+
+	const fnName = strategy === "cursor" ? "nextCursor" : "items";
+	const fnValue = properties.get(fnName);
+	if (!fnValue) {
+		throw new EndpointParseError(
+			`${strategy === "cursor" ? "Cursor" : "Offset"} pagination is missing \`${fnName}\``,
+			resolved.call,
+			"invalid-pagination",
+		);
+	}
+
+	const pageSizeValue = properties.get("pageSize");
+	const pageSize = pageSizeValue
+		? evaluateNumber(pageSizeValue, "pageSize")
+		: DEFAULT_PAGE_SIZE;
+	if (!Number.isInteger(pageSize) || pageSize < 1) {
+		throw new EndpointParseError(
+			"`pageSize` must be a positive integer",
+			pageSizeValue!.node,
+			"invalid-pagination",
+		);
+	}
+
+	const maxPagesValue = properties.get("maxPages");
+	const maxPages = maxPagesValue
+		? Math.floor(evaluateNumber(maxPagesValue, "maxPages"))
+		: null;
+
+	return {
+		strategy,
+		pageSize,
+		maxPages: maxPages !== null && maxPages > 0 ? maxPages : null,
+		pageFnSource: renderFunction(fnValue, fnName, ctx),
+	};
+}
+
+// ─── Optimistic Update Parsing ────────────────────────────────
+
+const OPTIMISTIC_UPDATE_KEYS = new Set(["target", "args", "update", "condition"]);
+
+/**
+ * Walk an `optimistic` config into its single or multi-target shape.
+ * Anything that can't be copied into the generated api.ts throws an
+ * EndpointParseError pointing at the offending node.
+ */
+function parseOptimistic(
+	value: ConfigValue,
+	ctx: TypeResolutionContext,
+): ParsedOptimistic {
+	const properties = collectObjectProperties(value, "optimistic");
+
+	const updatesValue = properties.get("updates");
+	if (!updatesValue) {
+		const condition = properties.get("condition");
+		if (condition) {
+			throw new EndpointParseError(
+				"`condition` is only supported on entries of `optimistic.updates`",
+				condition.node,
+				"invalid-optimistic",
+			);
+		}
+		return {
+			kind: "single",
+			updates: [parseOptimisticUpdate(value, properties, ctx)],
+		};
+	}
+
+	for (const [key, other] of properties) {
+		if (key !== "updates") {
+			throw new EndpointParseError(
+				"`optimistic` cannot mix `updates` with other properties",
+				other.node,
+				"invalid-optimistic",
+			);
+		}
+	}
+
+	const elements = collectArrayElements(updatesValue, "optimistic.updates");
+	if (elements.length === 0) {
+		throw new EndpointParseError(
+			"`optimistic.updates` must contain at least one update",
+			updatesValue.node,
+			"invalid-optimistic",
+		);
+	}
+
+	return {
+		kind: "multi",
+		updates: elements.map((el) =>
+			parseOptimisticUpdate(
+				el,
+				collectObjectProperties(el, "optimistic update"),
+				ctx,
+			),
+		),
+	};
+}
+
+function parseOptimisticUpdate(
+	value: ConfigValue,
+	properties: Map<string, ConfigValue>,
+	ctx: TypeResolutionContext,
+): ParsedOptimisticUpdate {
+	for (const [key, prop] of properties) {
+		if (!OPTIMISTIC_UPDATE_KEYS.has(key)) {
+			throw new EndpointParseError(
+				`Unsupported property \`${key}\` in optimistic update`,
+				prop.node,
+				"invalid-optimistic",
+			);
+		}
+	}
+
+	for (const key of ["target", "args", "update"]) {
+		if (!properties.has(key)) {
+			throw new EndpointParseError(
+				`Optimistic update is missing \`${key}\``,
+				value.node,
+				"invalid-optimistic",
+			);
+		}
 	}
-	map.get(key)!.add(value);
+
+	const conditionValue = properties.get("condition");
+	return {
+		target: evaluateString(properties.get("target")!, "target"),
+		argsSource: renderFunction(properties.get("args")!, "args", ctx),
+		updateSource: renderFunction(properties.get("update")!, "update", ctx),
+		conditionSource: conditionValue
+			? renderFunction(conditionValue, "condition", ctx)
+			: null,
+	};
 }
 
 function deriveRoutePath(filePath: string, config: ResolvedConfig): string {
@@ -319,7 +697,114 @@ function deriveRoutePath(filePath: string, config: ResolvedConfig): string {
 	return `/api/${segments.join("/")}`;
 }
 
-// ─── Route Grouping ───────────────────────────────────────────
+// ─── Route Params ─────────────────────────────────────────────
+
+const IDENTIFIER = /^[A-Za-z_$][\w$]*$/;
+
+/**
+ * Read the dynamic segments of a route path. Param names become
+ * destructured variables in the generated `query`, so they must be
+ * identifiers; catch-all segments must come last, as in Next.js.
+ */
+function parseRouteParams(
+	routePath: string,
+	sourceFile: SourceFile,
+): RouteParam[] {
+	const params: RouteParam[] = [];
+	const segments = routePath.split("/");
+
+	segments.forEach((segment, index) => {
+		const param = parseRouteSegment(segment);
+		if (!param) return;
+
+		const fail = (message: string): never => {
+			throw new EndpointParseError(
+				`Invalid route segment \`${segment}\` in ${routePath}: ${message}`,
+				sourceFile,
+				"invalid-route-segment",
+			);
+		};
+
+		if (!IDENTIFIER.test(param.name)) {
+			fail("param names must be valid identifiers");
+		}
+		if (params.some((p) => p.name === param.name)) {
+			fail(`\`${param.name}\` is already used by an earlier segment`);
+		}
+		if (param.kind !== "single" && index !== segments.length - 1) {
+			fail("catch-all segments must be the last segment of the route");
+		}
+		params.push(param);
+	});
+
+	return params;
+}
+
+function parseRouteSegment(segment: string): RouteParam | null {
+	let match = /^\[\[\.\.\.(.+)\]\]$/.exec(segment);
+	if (match) return { name: match[1], kind: "optional-catch-all" };
+	match = /^\[\.\.\.(.+)\]$/.exec(segment);
+	if (match) return { name: match[1], kind: "catch-all" };
+	match = /^\[(.+)\]$/.exec(segment);
+	if (match) return { name: match[1], kind: "single" };
+	return null;
+}
+
+/**
+ * When the endpoint passes a route literal as its third type argument
+ * (typing `ctx.params`), it must match the route derived from the file path.
+ */
+function checkRouteType(resolved: ResolvedEndpoint, routePath: string): void {
+	const { call, exportExpression } = resolved;
+	const routeType = resolved.typeArguments[2];
+	if (!routeType?.isStringLiteral()) return;
+
+	const declared = routeType.getLiteralValue();
+	if (declared === routePath) return;
+
+	const written = call.getTypeArguments()[2];
+	throw new EndpointParseError(
+		`Route type "${declared}" doesn't match this file's route "${routePath}". ` +
+			`Use "${routePath}" or move the file to match.`,
+		written && written.getSourceFile() === exportExpression.getSourceFile()
+			? written
+			: exportExpression,
+		"route-mismatch",
+	);
+}
+
+// ─── Route Table ──────────────────────────────────────────────
+
+/**
+ * Every handler-backed endpoint keyed by route path, then HTTP method.
+ * Unlike `RouteGroup`, a slot can hold more than one endpoint so that
+ * conflicts are visible instead of silently overwritten.
+ */
+type RouteTable = Map<string, Map<string, ParsedEndpoint[]>>;
+
+function buildRouteTable(endpoints: ParsedEndpoint[]): RouteTable {
+	const table: RouteTable = new Map();
+
+	for (const ep of endpoints) {
+		if (!ep.hasHandler) continue; // Client-only endpoints have no route
+
+		let methods = table.get(ep.routePath);
+		if (!methods) {
+			methods = new Map();
+			table.set(ep.routePath, methods);
+		}
+		const httpMethod = ep.method.toUpperCase();
+		const slot = methods.get(httpMethod);
+		if (slot) slot.push(ep);
+		else methods.set(httpMethod, [ep]);
+	}
+
+	return table;
+}
+
+function appRouteDirFor(routePath: string, routesDir: string): string {
+	return path.join(routesDir, routePath.replace(/^\/api\//, ""));
+}
 
 function groupEndpointsByRoute(
 	endpoints: ParsedEndpoint[],
@@ -329,43 +814,227 @@ function groupEndpointsByRoute(
 
 	if (!config.routes) return groups;
 
-	for (const ep of endpoints) {
-		if (!ep.hasHandler) continue; // Skip client-only endpoints
+	for (const [routePath, methods] of buildRouteTable(endpoints)) {
+		const group: RouteGroup = {
+			routePath,
+			appRouteDir: appRouteDirFor(routePath, config.routes.dir),
+			methods: new Map(),
+		};
+		for (const [httpMethod, slot] of methods) {
+			group.methods.set(httpMethod, slot[0]);
+		}
+		groups.set(routePath, group);
+	}
+
+	return groups;
+}
+
+// ─── Conflict Detection ───────────────────────────────────────
+
+const HOOK_SUFFIXES = {
+	query: "Query",
+	infiniteQuery: "InfiniteQuery",
+	mutation: "Mutation",
+} as const;
+
+function hookNameFor(ep: ParsedEndpoint): string {
+	return `use${capitalize(ep.name)}${HOOK_SUFFIXES[ep.endpointType]}`;
+}
+
+/**
+ * Find endpoints that would overwrite each other in the generated output:
+ * duplicate `name`s (duplicate keys in `createApi`), distinct names that
+ * capitalize to the same hook, and two files serving the same route and
+ * HTTP method. Each conflict is reported on the later file (in path
+ * order) with the earlier one as a related location.
+ */
+export function findConflicts(
+	endpoints: ParsedEndpoint[],
+	config: ResolvedConfig,
+): Diagnostic[] {
+	const diagnostics: Diagnostic[] = [];
+	const sorted = [...endpoints].sort((a, b) =>
+		a.filePath.localeCompare(b.filePath),
+	);
 
-		if (!groups.has(ep.routePath)) {
-			const appRouteDir = path.join(
-				config.routes.dir,
-				ep.routePath.replace(/^\/api\//, ""),
+	// Endpoint names and hook names
+	const byName = new Map<string, ParsedEndpoint>();
+	const byHook = new Map<string, ParsedEndpoint>();
+	for (const ep of sorted) {
+		const sameName = byName.get(ep.name);
+		if (sameName) {
+			diagnostics.push(
+				diagnosticAtLocation(
+					ep.nameLocation,
+					"error",
+					"duplicate-name",
+					`Endpoint name "${ep.name}" is already used by ${sameName.filePath}. ` +
+						"Names become keys in the generated API and hook names, so rename one of them.",
+					[relatedTo(sameName.nameLocation, `"${ep.name}" first defined here`)],
+				),
 			);
-			groups.set(ep.routePath, {
-				routePath: ep.routePath,
-				appRouteDir,
-				methods: new Map(),
-			});
+			continue;
 		}
-		const httpMethod = ep.method.toUpperCase();
-		groups.get(ep.routePath)!.methods.set(httpMethod, ep);
+		byName.set(ep.name, ep);
+
+		const hookName = hookNameFor(ep);
+		const sameHook = byHook.get(hookName);
+		if (sameHook) {
+			diagnostics.push(
+				diagnosticAtLocation(
+					ep.nameLocation,
+					"error",
+					"duplicate-hook",
+					`Endpoint "${ep.name}" generates the hook ${hookName}, which is already ` +
+						`generated for "${sameHook.name}" in ${sameHook.filePath}. Rename one of them.`,
+					[relatedTo(sameHook.nameLocation, `${hookName} first generated here`)],
+				),
+			);
+			continue;
+		}
+		byHook.set(hookName, ep);
 	}
 
-	return groups;
+	// Domain files (only when splitting)
+	if (config.splitByDomain) {
+		const byApiName = new Map<string, string>();
+		for (const [domain, [first]] of groupEndpointsByDomain(sorted)) {
+			const apiName = domainApiName(domain);
+			const sameApiName = byApiName.get(apiName);
+			if (RESERVED_OUTPUT_NAMES.has(domain)) {
+				diagnostics.push(
+					diagnosticAtLocation(
+						first.exportLocation,
+						"error",
+						"domain-conflict",
+						`Endpoint folder "${domain}" would replace the generated ${domain}.ts when splitting by domain. Rename the folder.`,
+					),
+				);
+			} else if (sameApiName) {
+				diagnostics.push(
+					diagnosticAtLocation(
+						first.exportLocation,
+						"error",
+						"domain-conflict",
+						`Endpoint folders "${sameApiName}" and "${domain}" both generate ${apiName} when splitting by domain. Rename one of them.`,
+					),
+				);
+			} else {
+				byApiName.set(apiName, domain);
+			}
+		}
+	}
+
+	// Route/method pairs (only when route handlers are generated)
+	if (!config.routes) return diagnostics;
+
+	for (const [routePath, methods] of buildRouteTable(sorted)) {
+		if (isIgnoredRoute(appRouteDirFor(routePath, config.routes.dir), config)) {
+			continue;
+		}
+
+		for (const [httpMethod, slot] of methods) {
+			const [first, ...rest] = slot;
+			for (const ep of rest) {
+				diagnostics.push(
+					diagnosticAtLocation(
+						ep.exportLocation,
+						"error",
+						"route-conflict",
+						`${httpMethod} ${routePath} is already served by ${first.filePath}. ` +
+							suggestRouteResolution(ep, config),
+						[relatedTo(first.exportLocation, `${httpMethod} ${routePath} first defined here`)],
+					),
+				);
+			}
+		}
+	}
+
+	return diagnostics;
+}
+
+function relatedTo(
+	location: SourceLocation,
+	message: string,
+): RelatedLocation {
+	return {
+		file: location.file,
+		line: location.line,
+		column: location.column,
+		message,
+	};
+}
+
+/**
+ * Suggest how to move a conflicting endpoint to a distinct route: a
+ * filename named after the endpoint, or a dynamic segment for
+ * single-resource variants.
+ */
+function suggestRouteResolution(
+	ep: ParsedEndpoint,
+	config: ResolvedConfig,
+): string {
+	const dir = path.posix.dirname(ep.filePath);
+	const prefix = dir === "." ? "" : `${dir}/`;
+	const fileName = path.posix.basename(ep.filePath);
+	const renamed = `${prefix}${ep.name}.ts`;
+	const rename =
+		deriveRoutePath(renamed, config) === ep.routePath
+			? "Rename the file so it maps to a distinct route"
+			: `Rename the file so it maps to a distinct route (e.g. ${renamed})`;
+	return (
+		`${rename}, move it under a dynamic segment (e.g. ${prefix}[id]/${fileName}) ` +
+		"or use a different HTTP method."
+	);
 }
 
 // ─── Code Generation ──────────────────────────────────────────
 
+/**
+ * First line of every emitted file. Marks the file as owned by ERTK:
+ * files without it are never overwritten or removed.
+ */
+const GENERATED_HEADER = "// AUTO-GENERATED by ERTK codegen. Do not edit.";
+
+/** `fetchBaseQuery` sending params in the format the route handler decodes. */
+function defaultBaseQuerySource(config: ResolvedConfig): string {
+	return `fetchBaseQuery({ baseUrl: "${config.baseUrl}", paramsSerializer: encodeQuery })`;
+}
+
+/** Value names declared by api.ts that imported types must not shadow. */
+const API_RESERVED_NAMES = [
+	"api",
+	"baseQuery",
+	"createApi",
+	"fetchBaseQuery",
+	"retry",
+	"BaseQueryApi",
+	"FetchArgs",
+	"FetchBaseQueryError",
+	"withPage",
+	"withFormData",
+	"encodeQuery",
+	"readEvents",
+	"openStream",
+	"streamErrors",
+	"streamResult",
+];
+
 function generateApiTs(
 	endpoints: ParsedEndpoint[],
 	config: ResolvedConfig,
 ): string {
-	// Collect all type imports
-	const allTypeImports = new Map<string, Set<string>>();
-	for (const ep of endpoints) {
-		for (const [importPath, types] of ep.typeImports) {
-			if (!allTypeImports.has(importPath)) {
-				allTypeImports.set(importPath, new Set());
-			}
-			for (const t of types) {
-				allTypeImports.get(importPath)!.add(t);
-			}
+	// In split mode the base API only carries shared settings; endpoints
+	// and hooks live in the per-domain files
+	const split = config.splitByDomain;
+
+	// Render endpoint definitions first so the namer knows every
+	// type the file references before the import block is written
+	const namer = createTypeNamer(API_RESERVED_NAMES);
+	const endpointLines: string[] = [];
+	if (!split) {
+		for (const ep of endpoints) {
+			endpointLines.push(...generateEndpointDef(ep, namer, () => "api"));
 		}
 	}
 
@@ -380,47 +1049,56 @@ function generateApiTs(
 		(ep) => ep.maxRetries != null && ep.maxRetries > 0,
 	);
 
+	// Streams send requests through the base query, without retries
+	const hasStreams = endpoints.some((ep) => ep.stream);
+	const rtkImports = [
+		...(split ? [] : helperTypeImports(endpoints).map((t) => `type ${t}`)),
+		"createApi",
+		"fetchBaseQuery",
+		...(hasAnyRetries ? ["retry"] : []),
+	];
+
 	const lines: string[] = [];
-	lines.push("// AUTO-GENERATED by ERTK codegen. Do not edit.");
-	if (hasAnyRetries) {
-		lines.push(
-			'import { createApi, fetchBaseQuery, retry } from "@reduxjs/toolkit/query/react";',
-		);
-	} else {
-		lines.push(
-			'import { createApi, fetchBaseQuery } from "@reduxjs/toolkit/query/react";',
-		);
+	lines.push(GENERATED_HEADER);
+	lines.push(
+		`import { ${rtkImports.join(", ")} } from "@reduxjs/toolkit/query/react";`,
+	);
+	// Also available to a custom baseQuery that sets `paramsSerializer`
+	if (!config.baseQuery || config.baseQuery.includes("encodeQuery")) {
+		lines.push('import { encodeQuery } from "ertk";');
+	}
+
+	// Add type imports and hoisted local declarations
+	lines.push(...namer.importLines());
+	for (const declaration of namer.hoistedDeclarations()) {
+		lines.push("");
+		lines.push(declaration);
 	}
 
-	// Add type imports
-	for (const [importPath, types] of [...allTypeImports.entries()].sort()) {
-		const typeList = [...types].sort().join(", ");
-		lines.push(`import type { ${typeList} } from "${importPath}";`);
+	// baseQuery — use custom source if provided, otherwise default
+	const configuredBaseQuery = config.baseQuery ?? defaultBaseQuerySource(config);
+	if (hasStreams) {
+		// Domain files open their streams with it too
+		lines.push("");
+		lines.push(
+			`${split ? "export " : ""}const baseQuery = ${configuredBaseQuery};`,
+		);
 	}
+	if (!split) lines.push(...helperDeclarations(endpoints));
+	const baseQuery = hasStreams ? "baseQuery" : configuredBaseQuery;
 
 	lines.push("");
 	lines.push("export const api = createApi({");
 	lines.push('\treducerPath: "api",');
 
-	// baseQuery — use custom source if provided, otherwise default
 	// When retries are used, wrap with retry() and set maxRetries: 0 as default
 	// so only endpoints with explicit extraOptions.maxRetries will retry.
 	if (hasAnyRetries) {
-		if (config.baseQuery) {
-			lines.push(
-				`\tbaseQuery: retry(${config.baseQuery}, { maxRetries: 0 }),`,
-			);
-		} else {
-			lines.push(
-				`\tbaseQuery: retry(fetchBaseQuery({ baseUrl: "${config.baseUrl}" }), { maxRetries: 0 }),`,
-			);
-		}
-	} else if (config.baseQuery) {
-		lines.push(`\tbaseQuery: ${config.baseQuery},`);
+		lines.push(`\tbaseQuery: retry(${baseQuery}, { maxRetries: 0 }),`);
+	} else if (hasStreams) {
+		lines.push("\tbaseQuery,");
 	} else {
-		lines.push(
-			`\tbaseQuery: fetchBaseQuery({ baseUrl: "${config.baseUrl}" }),`,
-		);
+		lines.push(`\tbaseQuery: ${baseQuery},`);
 	}
 
 	const tagTypesList = [...tagTypes].sort();
@@ -429,62 +1107,287 @@ function generateApiTs(
 	);
 	lines.push("\trefetchOnFocus: false,");
 	lines.push("\trefetchOnReconnect: true,");
-	lines.push("\tendpoints: (builder) => ({");
 
-	for (const ep of endpoints) {
-		lines.push(...generateEndpointDef(ep));
+	if (split) {
+		lines.push("\tendpoints: () => ({}),");
+		lines.push("});");
+		return lines.join("\n") + "\n";
 	}
 
+	lines.push("\tendpoints: (builder) => ({");
+
+	lines.push(...endpointLines);
+
 	lines.push("\t}),");
 	lines.push("});");
 
 	// Export hooks
 	lines.push("");
-	const hookExports: string[] = [];
-	for (const ep of endpoints) {
-		if (ep.endpointType === "query") {
-			hookExports.push(`use${capitalize(ep.name)}Query`);
-		} else {
-			hookExports.push(`use${capitalize(ep.name)}Mutation`);
+	lines.push(...generateHookExports(endpoints, "api"));
+
+	return lines.join("\n") + "\n";
+}
+
+function generateHookExports(
+	endpoints: ParsedEndpoint[],
+	apiName: string,
+): string[] {
+	const lines: string[] = [];
+	lines.push("export const {");
+	for (const ep of endpoints) {
+		lines.push(`\t${hookNameFor(ep)},`);
+	}
+	lines.push(`} = ${apiName};`);
+	return lines;
+}
+
+// ─── Domain Splitting ─────────────────────────────────────────
+
+/** Expression whose `util` is typed with a given optimistic update target. */
+type ApiAccessor = (target: string) => string;
+
+/** Generated files a domain file must not replace. */
+const RESERVED_OUTPUT_NAMES = new Set([
+	"api",
+	"store",
+	"invalidation",
+	"client",
+	"errors",
+	"mocks",
+	"permissions",
+]);
+
+/** Top-level endpoint folder (or root-level file) an endpoint belongs to. */
+function domainOf(ep: ParsedEndpoint): string {
+	return ep.filePath.split("/")[0].replace(/\.ts$/, "");
+}
+
+/** `user-settings` → `userSettingsApi` */
+function domainApiName(domain: string): string {
+	const words = domain.split(/[^A-Za-z0-9]+/).filter(Boolean);
+	const camel = words
+		.map((word, i) => (i === 0 ? word : capitalize(word)))
+		.join("");
+	const name = `${camel}Api`;
+	return /^[0-9]/.test(name) ? `_${name}` : name;
+}
+
+function groupEndpointsByDomain(
+	endpoints: ParsedEndpoint[],
+): Map<string, ParsedEndpoint[]> {
+	const domains = new Map<string, ParsedEndpoint[]>();
+	for (const ep of endpoints) {
+		const domain = domainOf(ep);
+		const list = domains.get(domain);
+		if (list) list.push(ep);
+		else domains.set(domain, [ep]);
+	}
+	return domains;
+}
+
+/**
+ * A domain file: injects the domain's endpoints into the base API and
+ * exports only its hooks. Optimistic updates that target another
+ * domain's endpoint use a type-only import of that domain, so its
+ * code isn't pulled into the bundle.
+ */
+function generateDomainTs(
+	domain: string,
+	endpoints: ParsedEndpoint[],
+	allEndpoints: ParsedEndpoint[],
+): string {
+	const apiName = domainApiName(domain);
+	const domainByEndpoint = new Map(
+		allEndpoints.map((ep) => [ep.name, domainOf(ep)]),
+	);
+
+	// The base API has no endpoints in its type, so `util` is typed through
+	// the injected API that defines the target
+	const crossDomainImports = new Map<string, string>();
+	const apiFor: ApiAccessor = (target) => {
+		const targetDomain = domainByEndpoint.get(target);
+		if (!targetDomain) return "api";
+		const targetApi = domainApiName(targetDomain);
+		if (targetDomain !== domain) {
+			crossDomainImports.set(targetDomain, targetApi);
 		}
+		return `(api as unknown as typeof ${targetApi})`;
+	};
+
+	const reserved = [
+		...API_RESERVED_NAMES,
+		...[...domainByEndpoint.values()].map(domainApiName),
+	];
+	const namer = createTypeNamer(reserved);
+	const endpointLines: string[] = [];
+	for (const ep of endpoints) {
+		endpointLines.push(...generateEndpointDef(ep, namer, apiFor));
 	}
 
-	lines.push("export const {");
-	for (const hook of hookExports) {
-		lines.push(`\t${hook},`);
+	const typeImports = helperTypeImports(endpoints);
+	const apiImports = endpoints.some((ep) => ep.stream)
+		? "api, baseQuery"
+		: "api";
+
+	const lines: string[] = [];
+	lines.push(GENERATED_HEADER);
+	if (typeImports.length > 0) {
+		lines.push(
+			`import type { ${typeImports.join(", ")} } from "@reduxjs/toolkit/query/react";`,
+		);
+	}
+	lines.push(`import { ${apiImports} } from "./api";`);
+	for (const [targetDomain, targetApi] of crossDomainImports) {
+		lines.push(`import type { ${targetApi} } from "./${targetDomain}";`);
 	}
-	lines.push("} = api;");
+	lines.push(...namer.importLines());
+	for (const declaration of namer.hoistedDeclarations()) {
+		lines.push("");
+		lines.push(declaration);
+	}
+	lines.push(...helperDeclarations(endpoints));
+
+	lines.push("");
+	lines.push(`export const ${apiName} = api.injectEndpoints({`);
+	lines.push("\tendpoints: (builder) => ({");
+	lines.push(...endpointLines);
+	lines.push("\t}),");
+	lines.push("});");
+
+	lines.push("");
+	lines.push(...generateHookExports(endpoints, apiName));
 
 	return lines.join("\n") + "\n";
 }
 
-function generateEndpointDef(ep: ParsedEndpoint): string[] {
+function generateEndpointDef(
+	ep: ParsedEndpoint,
+	namer: TypeNamer,
+	apiFor: ApiAccessor,
+): string[] {
+	if (ep.pagination) return generateInfiniteEndpointDef(ep, ep.pagination, namer);
+	if (ep.stream) return generateStreamEndpointDef(ep, ep.stream, namer, apiFor);
+
 	const lines: string[] = [];
 	const builderType =
 		ep.endpointType === "query" ? "builder.query" : "builder.mutation";
 
 	lines.push(
-		`\t\t${ep.name}: ${builderType}<${ep.responseType}, ${ep.argsType}>({`,
+		`\t\t${ep.name}: ${builderType}<${namer.render(ep.responseType)}, ${endpointArgs(ep, namer)}>({`,
 	);
 
-	if (ep.queryFnSource) {
-		lines.push(`\t\t\tquery: ${ep.queryFnSource},`);
+	const query = endpointQuery(ep, namer);
+	if (query) {
+		lines.push(`\t\t\tquery: ${query},`);
 	}
 
-	if (ep.providesTagsSource) {
-		lines.push(`\t\t\tprovidesTags: ${ep.providesTagsSource},`);
+	lines.push(...generateTagOptions(ep, namer));
+
+	if (ep.optimistic) {
+		lines.push(...generateOnQueryStarted(ep.optimistic, namer, apiFor));
+	}
+
+	if (ep.maxRetries != null && ep.maxRetries > 0) {
+		lines.push(`\t\t\textraOptions: { maxRetries: ${ep.maxRetries} },`);
 	}
 
+	lines.push("\t\t}),");
+	return lines;
+}
+
+/**
+ * The endpoint's `query`, or the default for a dynamic route. Multipart
+ * endpoints and per-part requests always have one; multipart queries
+ * are wrapped to send the body as a form.
+ */
+function endpointQuery(ep: ParsedEndpoint, namer: TypeNamer): string | null {
+	const needsQuery =
+		ep.routeParams.length > 0 || ep.multipart || ep.requestParts !== null;
+	const query = ep.queryFnSource
+		? namer.render(ep.queryFnSource)
+		: needsQuery
+			? generateRouteQuery(ep)
+			: null;
+	if (query && ep.multipart) return `withFormData(${query})`;
+	return query;
+}
+
+/** `TArgs` as the hooks take it: multipart endpoints also take their `files`. */
+function endpointArgs(ep: ParsedEndpoint, namer: TypeNamer): string {
+	const args = namer.render(ep.argsType);
+	if (!ep.multipart) return args;
+	const files = "{ files?: Record<string, Blob | Blob[]> }";
+	return args === "void" ? `${files} | void` : `(${args}) & ${files}`;
+}
+
+function generateTagOptions(ep: ParsedEndpoint, namer: TypeNamer): string[] {
+	const lines: string[] = [];
+	if (ep.providesTagsSource) {
+		lines.push(`\t\t\tprovidesTags: ${namer.render(ep.providesTagsSource)},`);
+	}
 	if (ep.invalidatesTagsSource) {
-		lines.push(`\t\t\tinvalidatesTags: ${ep.invalidatesTagsSource},`);
+		lines.push(
+			`\t\t\tinvalidatesTags: ${namer.render(ep.invalidatesTagsSource)},`,
+		);
 	}
+	return lines;
+}
 
-	if (ep.optimisticSource) {
-		const onQueryStarted = generateOnQueryStarted(ep);
-		if (onQueryStarted) {
-			lines.push(...onQueryStarted);
-		}
+/**
+ * An `endpoint.infinite()` endpoint as `builder.infiniteQuery`. The
+ * endpoint's `query` builds the request from the args and `withPage`
+ * adds the page param and `limit` to its query string.
+ */
+function generateInfiniteEndpointDef(
+	ep: ParsedEndpoint,
+	pagination: ParsedPagination,
+	namer: TypeNamer,
+): string[] {
+	const { pageSize } = pagination;
+	const pageFn = namer.render(pagination.pageFnSource);
+	const cursor = pagination.strategy === "cursor";
+	const pageParamType = cursor ? "string | null" : "number";
+
+	const lines: string[] = [];
+	lines.push(
+		`\t\t${ep.name}: builder.infiniteQuery<${namer.render(ep.responseType)}, ${endpointArgs(ep, namer)}, ${pageParamType}>({`,
+	);
+
+	const query = endpointQuery(ep, namer);
+	if (query) {
+		const page = cursor
+			? `{ cursor: pageParam ?? undefined, limit: ${pageSize} }`
+			: `{ offset: pageParam, limit: ${pageSize} }`;
+		// Bound to a typed const: a void-args `query` may take no parameters
+		lines.push("\t\t\tquery: ({ queryArg, pageParam }) => {");
+		lines.push(
+			`\t\t\t\tconst query: (args: ${endpointArgs(ep, namer)}) => string | FetchArgs = ${query};`,
+		);
+		lines.push(`\t\t\t\treturn withPage(query(queryArg), ${page});`);
+		lines.push("\t\t\t},");
+	}
+
+	lines.push("\t\t\tinfiniteQueryOptions: {");
+	if (cursor) {
+		lines.push("\t\t\t\tinitialPageParam: null,");
+		lines.push(
+			`\t\t\t\tgetNextPageParam: (lastPage) => (${pageFn})(lastPage) ?? undefined,`,
+		);
+	} else {
+		lines.push("\t\t\t\tinitialPageParam: 0,");
+		lines.push(
+			`\t\t\t\tgetNextPageParam: (lastPage, _pages, offset) =>`,
+		);
+		lines.push(
+			`\t\t\t\t\t(${pageFn})(lastPage).length < ${pageSize} ? undefined : offset + ${pageSize},`,
+		);
+	}
+	if (pagination.maxPages != null) {
+		lines.push(`\t\t\t\tmaxPages: ${pagination.maxPages},`);
 	}
+	lines.push("\t\t\t},");
+
+	lines.push(...generateTagOptions(ep, namer));
 
 	if (ep.maxRetries != null && ep.maxRetries > 0) {
 		lines.push(`\t\t\textraOptions: { maxRetries: ${ep.maxRetries} },`);
@@ -494,145 +1397,347 @@ function generateEndpointDef(ep: ParsedEndpoint): string[] {
 	return lines;
 }
 
-function generateOnQueryStarted(ep: ParsedEndpoint): string[] | null {
-	if (!ep.optimisticSource) return null;
+/**
+ * An `endpoint.stream()` endpoint as a query whose cache entry starts
+ * empty. `openStream` sends the endpoint's request once the entry is
+ * added and applies each event until the entry is removed. If the
+ * stream fails, it refetches the entry so `queryFn` reports the error.
+ */
+function generateStreamEndpointDef(
+	ep: ParsedEndpoint,
+	stream: ParsedStream,
+	namer: TypeNamer,
+	apiFor: ApiAccessor,
+): string[] {
+	const event = namer.render(ep.responseType);
+	const onEvent = stream.onEventSource
+		? `(${namer.render(stream.onEventSource)})(draft, event)`
+		: "draft.push(event)";
 
 	const lines: string[] = [];
-	const isSingle = ep.optimisticSource.includes("target:");
-	const isMulti = ep.optimisticSource.includes("updates:");
+	lines.push(
+		`\t\t${ep.name}: builder.query<Array<${event}>, ${endpointArgs(ep, namer)}>({`,
+	);
+	lines.push(`\t\t\tqueryFn: (arg) => streamResult<${event}>("${ep.name}", arg),`);
 
-	if (isSingle && !isMulti) {
-		const targetMatch = ep.optimisticSource.match(
-			/target:\s*["'](\w+)["']/,
-		);
-		const argsMatch = ep.optimisticSource.match(
-			/args:\s*((?:\([^)]*\)|\w+)\s*=>[\s\S]*?)(?=,\s*update:)/,
+	const query = endpointQuery(ep, namer);
+	if (query) {
+		// Bound to a typed const: a void-args `query` may take no parameters
+		lines.push("\t\t\tonCacheEntryAdded: (arg, lifecycle) => {");
+		lines.push(
+			`\t\t\t\tconst query: (args: ${endpointArgs(ep, namer)}) => string | FetchArgs = ${query};`,
 		);
-		const updateMatch = ep.optimisticSource.match(
-			/update:\s*((?:\([^)]*\)|\w+)\s*=>[\s\S]*?)(?=,?\s*}$)/,
+		lines.push(
+			`\t\t\t\treturn openStream<${event}>("${ep.name}", arg, query(arg), lifecycle, {`,
 		);
-
-		if (targetMatch && argsMatch && updateMatch) {
-			const target = targetMatch[1];
-			const argsFn = argsMatch[1].trim();
-			const updateFn = updateMatch[1].trim();
-
-			lines.push(
-				`\t\t\tasync onQueryStarted(params, { dispatch, queryFulfilled }) {`,
-			);
-			lines.push(`\t\t\t\tconst patchResult = dispatch(`);
-			lines.push(
-				`\t\t\t\t\tapi.util.updateQueryData("${target}", (${argsFn})(params), (draft) => {`,
-			);
-			lines.push(`\t\t\t\t\t\t(${updateFn})(draft, params);`);
-			lines.push(`\t\t\t\t\t}),`);
-			lines.push(`\t\t\t\t);`);
-			lines.push(
-				`\t\t\t\ttry { await queryFulfilled; } catch { patchResult.undo(); }`,
-			);
-			lines.push(`\t\t\t},`);
-		}
-	} else if (isMulti) {
 		lines.push(
-			`\t\t\tasync onQueryStarted(params, { dispatch, queryFulfilled }) {`,
+			`\t\t\t\t\tonEvent: (event) => lifecycle.updateCachedData((draft) => { ${onEvent}; }),`,
 		);
 		lines.push(
-			`\t\t\t\tconst patches: Array<{ undo: () => void }> = [];`,
+			`\t\t\t\t\trefetch: () => { lifecycle.dispatch(${apiFor(ep.name)}.endpoints.${ep.name}.initiate(arg, { subscribe: false, forceRefetch: true })); },`,
 		);
+		lines.push("\t\t\t\t});");
+		lines.push("\t\t\t},");
+	}
 
-		const updatesContent = extractUpdatesArray(ep.optimisticSource);
-		if (updatesContent) {
-			for (const update of updatesContent) {
-				const targetMatch = update.match(/target:\s*["'](\w+)["']/);
-				const conditionMatch = update.match(
-					/condition:\s*((?:\([^)]*\)|\w+)\s*=>[^,}]*)/,
-				);
-				const argsMatch = update.match(
-					/args:\s*((?:\([^)]*\)|\w+)\s*=>[\s\S]*?)(?=,\s*(?:update|condition):)/,
-				);
-				const updateMatch = update.match(
-					/update:\s*((?:\([^)]*\)|\w+)\s*=>[\s\S]*?)(?=,?\s*}$)/,
-				);
+	lines.push(...generateTagOptions(ep, namer));
 
-				if (targetMatch && argsMatch && updateMatch) {
-					const target = targetMatch[1];
-					const argsFn = argsMatch[1].trim();
-					const updateFn = updateMatch[1].trim();
-
-					if (conditionMatch) {
-						const conditionFn = conditionMatch[1].trim();
-						lines.push(
-							`\t\t\t\tif ((${conditionFn})(params)) {`,
-						);
-						lines.push(`\t\t\t\t\tpatches.push(`);
-						lines.push(`\t\t\t\t\t\tdispatch(`);
-						lines.push(
-							`\t\t\t\t\t\t\tapi.util.updateQueryData("${target}", (${argsFn})(params), (draft) => {`,
-						);
-						lines.push(
-							`\t\t\t\t\t\t\t\t(${updateFn})(draft, params);`,
-						);
-						lines.push(`\t\t\t\t\t\t\t}),`);
-						lines.push(`\t\t\t\t\t\t),`);
-						lines.push(`\t\t\t\t\t);`);
-						lines.push(`\t\t\t\t}`);
-					} else {
-						lines.push(`\t\t\t\tpatches.push(`);
-						lines.push(`\t\t\t\t\tdispatch(`);
-						lines.push(
-							`\t\t\t\t\t\tapi.util.updateQueryData("${target}", (${argsFn})(params), (draft) => {`,
-						);
-						lines.push(
-							`\t\t\t\t\t\t\t(${updateFn})(draft, params);`,
-						);
-						lines.push(`\t\t\t\t\t\t}),`);
-						lines.push(`\t\t\t\t\t),`);
-						lines.push(`\t\t\t\t);`);
-					}
-				}
-			}
+	lines.push("\t\t}),");
+	return lines;
+}
+
+/** RTK Query types the helpers of these endpoints use. */
+function helperTypeImports(endpoints: ParsedEndpoint[]): string[] {
+	const hasStreams = endpoints.some((ep) => ep.stream);
+	const hasPages = endpoints.some((ep) => ep.pagination);
+	const hasForms = endpoints.some((ep) => ep.multipart);
+	return [
+		...(hasStreams ? ["BaseQueryApi"] : []),
+		...(hasPages || hasStreams || hasForms ? ["FetchArgs"] : []),
+		...(hasStreams ? ["FetchBaseQueryError"] : []),
+	];
+}
+
+/** Helpers used by infinite query, stream and multipart endpoints, declared once per file. */
+function helperDeclarations(endpoints: ParsedEndpoint[]): string[] {
+	const lines: string[] = [];
+	if (endpoints.some((ep) => ep.pagination)) {
+		lines.push("", WITH_PAGE_HELPER);
+	}
+	if (endpoints.some((ep) => ep.multipart)) {
+		lines.push("", WITH_FORM_DATA_HELPER);
+	}
+	if (endpoints.some((ep) => ep.stream)) {
+		lines.push("", STREAM_HELPERS);
+	}
+	return lines;
+}
+
+const WITH_PAGE_HELPER = `/** Add a page's query params to a request built by an endpoint's \`query\`. */
+function withPage(request: string | FetchArgs, page: Record<string, unknown>): FetchArgs {
+\tconst args = typeof request === "string" ? { url: request } : request;
+\treturn { ...args, params: { ...args.params, ...page } };
+}`;
+
+const WITH_FORM_DATA_HELPER = `/**
+ * Send the object body built by an endpoint's \`query\` as multipart/form-data.
+ * \`files\` are appended as files, dates as ISO strings and other objects as
+ * JSON; a field holding an array is sent once per item.
+ */
+function withFormData<TArgs>(query: (args: TArgs) => string | FetchArgs): (args: TArgs) => string | FetchArgs {
+\treturn (args) => {
+\t\tconst request = query(args);
+\t\tif (typeof request === "string" || typeof request.body !== "object" || request.body === null || request.body instanceof FormData) {
+\t\t\treturn request;
+\t\t}
+\t\tconst { files, ...fields } = request.body as Record<string, unknown>;
+\t\tconst form = new FormData();
+\t\tconst append = (key: string, value: unknown) => {
+\t\t\tif (value === undefined || value === null) return;
+\t\t\tif (Array.isArray(value)) return value.forEach((item) => append(key, item));
+\t\t\tif (value instanceof Blob) return form.append(key, value);
+\t\t\tif (value instanceof Date) return form.append(key, value.toISOString());
+\t\t\tform.append(key, typeof value === "object" ? JSON.stringify(value) : String(value));
+\t\t};
+\t\tfor (const [key, value] of Object.entries(fields)) append(key, value);
+\t\tfor (const [key, value] of Object.entries((files ?? {}) as Record<string, unknown>)) append(key, value);
+\t\treturn { ...request, body: form };
+\t};
+}`;
+
+const STREAM_HELPERS = `/**
+ * Pass the data of each Server-Sent Event to \`onEvent\`. Stops at an
+ * \`error\` event and returns its data. Error responses are JSON.
+ */
+async function readEvents(response: Response, onEvent: (data: unknown) => void): Promise<unknown> {
+\tif (!response.body || !response.headers.get("content-type")?.startsWith("text/event-stream")) {
+\t\treturn response.json().catch(() => null);
+\t}
+\tconst reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+\tlet buffer = "";
+\tfor (;;) {
+\t\tconst { value, done } = await reader.read();
+\t\tif (done) return null;
+\t\tbuffer += value;
+\t\tlet end: number;
+\t\twhile ((end = buffer.indexOf("\\n\\n")) !== -1) {
+\t\t\tconst fields = buffer.slice(0, end).split("\\n");
+\t\t\tbuffer = buffer.slice(end + 2);
+\t\t\tconst data = fields
+\t\t\t\t.filter((field) => field.startsWith("data:"))
+\t\t\t\t.map((field) => field.slice(5).trimStart())
+\t\t\t\t.join("\\n");
+\t\t\tif (!data) continue;
+\t\t\tif (fields.includes("event: error")) return JSON.parse(data);
+\t\t\tonEvent(JSON.parse(data));
+\t\t}
+\t}
+}
+
+/** Errors streams ended with, by endpoint and args, until their entry's refetch takes them. */
+const streamErrors = new Map<string, Map<unknown, FetchBaseQueryError>>();
+
+/** \`queryFn\` of a stream: an empty list, or the error its stream ended with. */
+function streamResult<TEvent>(
+\tendpoint: string,
+\targ: unknown,
+): { data: TEvent[] } | { error: FetchBaseQueryError } {
+\tconst errors = streamErrors.get(endpoint);
+\tconst error = errors?.get(arg);
+\tif (!error) return { data: [] };
+\terrors!.delete(arg);
+\treturn { error };
+}
+
+/**
+ * Stream an endpoint's events into a cache entry until the entry is removed.
+ * An error response or \`error\` event becomes the entry's error: it is kept
+ * for \`streamResult\` and the entry refetched, keeping the events so far.
+ */
+async function openStream<TEvent>(
+\tendpoint: string,
+\targ: unknown,
+\trequest: string | FetchArgs,
+\tlifecycle: Pick<BaseQueryApi, "dispatch" | "getState" | "extra"> & {
+\t\tcacheDataLoaded: Promise<unknown>;
+\t\tcacheEntryRemoved: Promise<unknown>;
+\t},
+\t{ onEvent, refetch }: { onEvent: (event: TEvent) => void; refetch: () => void },
+): Promise<void> {
+\ttry {
+\t\tawait lifecycle.cacheDataLoaded;
+\t} catch {
+\t\t// Removed before the empty first result was cached
+\t\treturn;
+\t}
+\tconst controller = new AbortController();
+\tvoid lifecycle.cacheEntryRemoved.then(() => controller.abort());
+\tconst args = typeof request === "string" ? { url: request } : request;
+\tconst api = {
+\t\tsignal: controller.signal,
+\t\tabort: (reason?: string) => controller.abort(reason),
+\t\tdispatch: lifecycle.dispatch,
+\t\tgetState: lifecycle.getState,
+\t\textra: lifecycle.extra,
+\t\tendpoint,
+\t\ttype: "query",
+\t} as BaseQueryApi;
+\tconst result = await baseQuery(
+\t\t{ ...args, responseHandler: (response) => readEvents(response, onEvent as (data: unknown) => void) },
+\t\tapi,
+\t\t{},
+\t);
+\tif (controller.signal.aborted) return;
+\t// An error response, or a 200 whose stream ended with an \`error\` event
+\tconst error = result.error ?? (result.data ? { status: 200, data: result.data } : null);
+\tif (!error) return;
+\tif (!streamErrors.has(endpoint)) streamErrors.set(endpoint, new Map());
+\tstreamErrors.get(endpoint)!.set(arg, error as FetchBaseQueryError);
+\trefetch();
+}`;
+
+/**
+ * Default `query` for a dynamic route without one: route params are
+ * destructured from the args (so a missing param fails type-checking)
+ * and interpolated into the URL; the remaining args become the query
+ * string for GET/DELETE and the JSON body otherwise. Fields of a
+ * per-part request's `query` and `headers` schemas are sent there.
+ */
+function generateRouteQuery(ep: ParsedEndpoint): string {
+	const names = new Set(ep.routeParams.map((p) => p.name));
+
+	// Relative to baseUrl, like hand-written queries
+	const segments = ep.routePath.replace(/^\/api/, "").split("/").slice(1);
+	let url = "";
+	for (const segment of segments) {
+		const param = parseRouteSegment(segment);
+		if (!param) {
+			url += `/${segment.replace(/[`\\]|\$\{/g, (c) => `\\${c}`)}`;
+		} else if (param.kind === "single") {
+			url += `/\${encodeURIComponent(${param.name})}`;
+		} else {
+			const list = param.kind === "catch-all" ? param.name : `(${param.name} ?? [])`;
+			url += `\${${list}.map((s) => \`/\${encodeURIComponent(s)}\`).join("")}`;
 		}
+	}
 
-		lines.push(
-			`\t\t\t\ttry { await queryFulfilled; } catch { for (const p of patches) p.undo(); }`,
+	// Fields with a request part of their own, bound to unique locals
+	const used = new Set(names);
+	const bind = (field: string): string => {
+		let local = IDENTIFIER.test(field) ? field : field.replace(/\W/g, "_");
+		if (/^\d/.test(local)) local = `_${local}`;
+		while (used.has(local)) local += "_";
+		used.add(local);
+		const property = IDENTIFIER.test(field) ? field : JSON.stringify(field);
+		return property === local ? local : `${property}: ${local}`;
+	};
+	const parts = ep.requestParts;
+	const queryFields = (parts?.query ?? []).filter((f) => !names.has(f)).map(bind);
+	const headerFields = (parts?.headers ?? []).filter((f) => !names.has(f)).map(bind);
+
+	const isQueryMethod = ep.method === "get" || ep.method === "delete";
+	let rest = isQueryMethod ? "params" : "body";
+	while (used.has(rest)) rest += "_";
+
+	// A binding like `"x-id": x_id` reads back as the same property
+	const queryEntries = queryFields.join(", ");
+	const request: string[] = [];
+	if (isQueryMethod) {
+		request.push(
+			queryFields.length > 0
+				? `params: { ...${rest}, ${queryEntries} }`
+				: rest === "params" ? rest : `params: ${rest}`,
 		);
-		lines.push(`\t\t\t},`);
+	} else {
+		if (queryFields.length > 0) request.push(`params: { ${queryEntries} }`);
+		request.push(rest === "body" ? rest : `body: ${rest}`);
+	}
+	if (headerFields.length > 0) {
+		request.push(`headers: { ${headerFields.join(", ")} }`);
 	}
 
-	return lines.length > 0 ? lines : null;
+	const method = ep.method === "get" ? "" : ` method: "${ep.method.toUpperCase()}",`;
+	const destructured = [...names, ...queryFields, ...headerFields, `...${rest}`].join(", ");
+	return `({ ${destructured} }) => ({ url: \`${url}\`,${method} ${request.join(", ")} })`;
 }
 
-function extractUpdatesArray(source: string): string[] | null {
-	const match = source.match(/updates:\s*\[([\s\S]*)\]/);
-	if (!match) return null;
+function generateOnQueryStarted(
+	optimistic: ParsedOptimistic,
+	namer: TypeNamer,
+	apiFor: ApiAccessor,
+): string[] {
+	const lines: string[] = [];
 
-	const content = match[1];
-	const updates: string[] = [];
-	let depth = 0;
-	let current = "";
+	if (optimistic.kind === "single") {
+		const update = optimistic.updates[0];
+		const target = update.target;
+		const argsSource = namer.render(update.argsSource);
+		const updateSource = namer.render(update.updateSource);
+		lines.push(
+			`\t\t\tasync onQueryStarted(params, { dispatch, queryFulfilled }) {`,
+		);
+		lines.push(`\t\t\t\tconst patchResult = dispatch(`);
+		lines.push(
+			`\t\t\t\t\t${apiFor(target)}.util.updateQueryData(${JSON.stringify(target)}, (${argsSource})(params), (draft) => {`,
+		);
+		lines.push(`\t\t\t\t\t\t(${updateSource})(draft, params);`);
+		lines.push(`\t\t\t\t\t}),`);
+		lines.push(`\t\t\t\t);`);
+		lines.push(
+			`\t\t\t\ttry { await queryFulfilled; } catch { patchResult.undo(); }`,
+		);
+		lines.push(`\t\t\t},`);
+		return lines;
+	}
 
-	for (const char of content) {
-		if (char === "{") {
-			depth++;
-			current += char;
-		} else if (char === "}") {
-			depth--;
-			current += char;
-			if (depth === 0) {
-				updates.push(current.trim());
-				current = "";
-			}
-		} else if (depth > 0) {
-			current += char;
+	lines.push(
+		`\t\t\tasync onQueryStarted(params, { dispatch, queryFulfilled }) {`,
+	);
+	lines.push(`\t\t\t\tconst patches: Array<{ undo: () => void }> = [];`);
+
+	for (const update of optimistic.updates) {
+		const target = update.target;
+		const argsSource = namer.render(update.argsSource);
+		const updateSource = namer.render(update.updateSource);
+		const conditionSource = update.conditionSource
+			? namer.render(update.conditionSource)
+			: null;
+
+		if (conditionSource) {
+			lines.push(`\t\t\t\tif ((${conditionSource})(params)) {`);
+			lines.push(`\t\t\t\t\tpatches.push(`);
+			lines.push(`\t\t\t\t\t\tdispatch(`);
+			lines.push(
+				`\t\t\t\t\t\t\t${apiFor(target)}.util.updateQueryData(${JSON.stringify(target)}, (${argsSource})(params), (draft) => {`,
+			);
+			lines.push(`\t\t\t\t\t\t\t\t(${updateSource})(draft, params);`);
+			lines.push(`\t\t\t\t\t\t\t}),`);
+			lines.push(`\t\t\t\t\t\t),`);
+			lines.push(`\t\t\t\t\t);`);
+			lines.push(`\t\t\t\t}`);
+		} else {
+			lines.push(`\t\t\t\tpatches.push(`);
+			lines.push(`\t\t\t\t\tdispatch(`);
+			lines.push(
+				`\t\t\t\t\t\t${apiFor(target)}.util.updateQueryData(${JSON.stringify(target)}, (${argsSource})(params), (draft) => {`,
+			);
+			lines.push(`\t\t\t\t\t\t\t(${updateSource})(draft, params);`);
+			lines.push(`\t\t\t\t\t\t}),`);
+			lines.push(`\t\t\t\t\t),`);
+			lines.push(`\t\t\t\t);`);
 		}
 	}
 
-	return updates.length > 0 ? updates : null;
+	lines.push(
+		`\t\t\t\ttry { await queryFulfilled; } catch { for (const p of patches) p.undo(); }`,
+	);
+	lines.push(`\t\t\t},`);
+	return lines;
 }
 
-function extractTagTypes(source: string | null, tags: Set<string>): void {
+function extractTagTypes(source: Template | null, tags: Set<string>): void {
 	if (!source) return;
-	const matches = source.matchAll(/["'](\w+)["']/g);
+	const matches = source.text.matchAll(/["'](\w+)["']/g);
 	for (const m of matches) {
 		if (m[1][0] === m[1][0].toUpperCase()) {
 			tags.add(m[1]);
@@ -645,7 +1750,7 @@ function capitalize(s: string): string {
 }
 
 function generateStoreTs(): string {
-	return `// AUTO-GENERATED by ERTK codegen. Do not edit.
+	return `${GENERATED_HEADER}
 import { configureStore } from "@reduxjs/toolkit";
 import { api } from "./api";
 
@@ -663,7 +1768,7 @@ export type AppDispatch = typeof store.dispatch;
 }
 
 function generateInvalidationTs(): string {
-	return `// AUTO-GENERATED by ERTK codegen. Do not edit.
+	return `${GENERATED_HEADER}
 import { api } from "./api";
 
 export function invalidateTags(
@@ -678,7 +1783,7 @@ export const updateQueryData = api.util.updateQueryData;
 
 function generateRouteFile(group: RouteGroup, config: ResolvedConfig): string {
 	const lines: string[] = [];
-	lines.push("// AUTO-GENERATED by ERTK codegen. Do not edit.");
+	lines.push(GENERATED_HEADER);
 
 	const handlerModule = config.routes!.handlerModule;
 
@@ -704,13 +1809,526 @@ function generateRouteFile(group: RouteGroup, config: ResolvedConfig): string {
 	for (const [method, ep] of group.methods) {
 		const varName = `${ep.name}Endpoint`;
 		lines.push(
-			`export const ${method} = createRouteHandler(${varName});`,
+			`export const ${method} = createRouteHandler(${varName}, "${group.routePath}");`,
+		);
+	}
+
+	return lines.join("\n") + "\n";
+}
+
+// ─── Fetch Client ─────────────────────────────────────────────
+
+/** Value names declared by client.ts that imported types must not shadow. */
+const CLIENT_RESERVED_NAMES = [
+	"encodeQuery",
+	"withFormData",
+	"BaseQueryApi",
+	"BaseQueryFn",
+	"FetchArgs",
+	"fetchBaseQuery",
+	"retry",
+	"QueryArgs",
+	"ClientEndpoint",
+	"defineEndpoint",
+	"endpoints",
+	"ClientOptions",
+	"RequestOptions",
+	"ClientError",
+	"Client",
+	"createClient",
+	"client",
+];
+
+/**
+ * client.ts: one async function per endpoint for code that can't use
+ * hooks (scripts, server components). Requests go through the same
+ * `query` functions and base query as api.ts, called without a store.
+ * Endpoints with no `query` have no URL to call and are left out, as
+ * are streams, which don't resolve to a single response.
+ */
+function generateClientTs(
+	endpoints: ParsedEndpoint[],
+	config: ResolvedConfig,
+): string {
+	const namer = createTypeNamer(CLIENT_RESERVED_NAMES);
+	const endpointLines: string[] = [];
+	for (const ep of endpoints) {
+		const query = endpointQuery(ep, namer);
+		if (!query || ep.stream) continue;
+		const type = ep.endpointType === "mutation" ? "mutation" : "query";
+		const retries =
+			ep.maxRetries != null && ep.maxRetries > 0 ? `, ${ep.maxRetries}` : "";
+		endpointLines.push(
+			`\t${ep.name}: defineEndpoint<${namer.render(ep.responseType)}, ${endpointArgs(ep, namer)}>("${ep.name}", "${type}", ${query}${retries}),`,
 		);
 	}
 
+	const hasAnyRetries = endpoints.some(
+		(ep) => ep.maxRetries != null && ep.maxRetries > 0,
+	);
+	const configured = config.baseQuery ?? defaultBaseQuerySource(config);
+	const extraOptions = hasAnyRetries
+		? "{ maxRetries: endpoint.maxRetries ?? 0 }"
+		: "{}";
+	const baseQuery = hasAnyRetries
+		? "retry(options.baseQuery ?? defaultBaseQuery(options), { maxRetries: 0 })"
+		: "options.baseQuery ?? defaultBaseQuery(options)";
+
+	const lines: string[] = [];
+	lines.push(GENERATED_HEADER);
+	lines.push("import {");
+	lines.push("\ttype BaseQueryApi,");
+	lines.push("\ttype BaseQueryFn,");
+	lines.push("\ttype FetchArgs,");
+	lines.push("\tfetchBaseQuery,");
+	if (hasAnyRetries) lines.push("\tretry,");
+	lines.push('} from "@reduxjs/toolkit/query";');
+	lines.push('import { encodeQuery } from "ertk";');
+	lines.push(...namer.importLines());
+	for (const declaration of namer.hoistedDeclarations()) {
+		lines.push("");
+		lines.push(declaration);
+	}
+	if (endpoints.some((ep) => ep.multipart && !ep.stream)) {
+		lines.push("", WITH_FORM_DATA_HELPER);
+	}
+
+	lines.push(`
+type QueryArgs = string | FetchArgs;
+
+interface ClientEndpoint<TResponse, TArgs> {
+\tname: string;
+\ttype: "query" | "mutation";
+\tquery: (args: TArgs) => QueryArgs;
+\tmaxRetries?: number;
+\t/** Never set; carries the response type for \`Client\` */
+\tresponse?: TResponse;
+}
+
+function defineEndpoint<TResponse, TArgs>(
+\tname: string,
+\ttype: "query" | "mutation",
+\tquery: (args: TArgs) => QueryArgs,
+\tmaxRetries?: number,
+): ClientEndpoint<TResponse, TArgs> {
+\treturn { name, type, query, maxRetries };
+}
+
+const endpoints = {
+${endpointLines.join("\n")}
+};
+
+export interface ClientOptions {
+\t/**
+\t * Base URL for requests. Required outside the browser, where relative
+\t * URLs can't be fetched. Replaces the configured \`baseQuery\`.
+\t */
+\tbaseUrl?: string;
+\t/** Custom \`fetch\` implementation. Replaces the configured \`baseQuery\`. */
+\tfetch?: typeof fetch;
+\t/** Headers sent with every request */
+\theaders?: HeadersInit | (() => HeadersInit | Promise<HeadersInit>);
+\t/**
+\t * Called with every failed request before its \`ClientError\` is thrown.
+\t * Throw from it to raise a different error instead.
+\t */
+\tonError?: (error: ClientError) => void;
+\t/** Base query to send requests with, overriding all of the above */
+\tbaseQuery?: BaseQueryFn<QueryArgs, unknown, unknown>;
+}
+
+export interface RequestOptions {
+\tsignal?: AbortSignal;
+\t/** Headers for this request, merged over \`ClientOptions.headers\` */
+\theaders?: HeadersInit;
+\t/** Page to fetch from an infinite endpoint, added to the query string */
+\tpage?: { cursor?: string; offset?: number; limit?: number };
+}
+
+/** Thrown when a request fails, with the error the base query returned. */
+export class ClientError extends Error {
+\tconstructor(
+\t\tpublic endpoint: string,
+\t\tpublic status: number | string,
+\t\tpublic data: unknown,
+\t) {
+\t\tsuper(\`\${endpoint} failed with status \${status}\`);
+\t\tthis.name = "ClientError";
+\t}
+}
+
+export type Client = {
+\t[K in keyof typeof endpoints]: (typeof endpoints)[K] extends ClientEndpoint<
+\t\tinfer TResponse,
+\t\tinfer TArgs
+\t>
+\t\t? (args: TArgs, options?: RequestOptions) => Promise<TResponse>
+\t\t: never;
+};
+
+function defaultBaseQuery(options: ClientOptions): BaseQueryFn<QueryArgs, unknown, unknown> {
+\tif (options.baseUrl === undefined && options.fetch === undefined) {
+\t\treturn ${configured};
+\t}
+\treturn fetchBaseQuery({ baseUrl: options.baseUrl ?? "${config.baseUrl}", fetchFn: options.fetch, paramsSerializer: encodeQuery });
+}
+
+export function createClient(options: ClientOptions = {}): Client {
+\tconst baseQuery = ${baseQuery};
+
+\tconst send = async (
+\t\tendpoint: ClientEndpoint<unknown, unknown>,
+\t\targs: unknown,
+\t\trequest: RequestOptions = {},
+\t) => {
+\t\tconst query = endpoint.query(args);
+\t\tconst fetchArgs: FetchArgs = typeof query === "string" ? { url: query } : { ...query };
+\t\tif (request.page) fetchArgs.params = { ...fetchArgs.params, ...request.page };
+\t\tconst headers = new Headers(
+\t\t\ttypeof options.headers === "function" ? await options.headers() : options.headers,
+\t\t);
+\t\tfor (const init of [fetchArgs.headers, request.headers]) {
+\t\t\tnew Headers(init as HeadersInit | undefined).forEach((value, key) => headers.set(key, value));
+\t\t}
+\t\tfetchArgs.headers = headers;
+
+\t\t// No store: the base query gets a minimal API object
+\t\tconst controller = new AbortController();
+\t\tconst api = {
+\t\t\tsignal: request.signal ?? controller.signal,
+\t\t\tabort: (reason?: string) => controller.abort(reason),
+\t\t\tdispatch: () => undefined,
+\t\t\tgetState: () => ({}),
+\t\t\textra: undefined,
+\t\t\tendpoint: endpoint.name,
+\t\t\ttype: endpoint.type,
+\t\t} as unknown as BaseQueryApi;
+
+\t\tconst result = await baseQuery(fetchArgs, api, ${extraOptions});
+\t\tif (result.error !== undefined) {
+\t\t\tconst { status = "UNKNOWN", data } = result.error as { status?: number | string; data?: unknown };
+\t\t\tconst error = new ClientError(endpoint.name, status, data);
+\t\t\toptions.onError?.(error);
+\t\t\tthrow error;
+\t\t}
+\t\treturn result.data;
+\t};
+
+\treturn Object.fromEntries(
+\t\tObject.entries(endpoints).map(([name, endpoint]) => [
+\t\t\tname,
+\t\t\t(args: unknown, request?: RequestOptions) =>
+\t\t\t\tsend(endpoint as ClientEndpoint<unknown, unknown>, args, request),
+\t\t]),
+\t) as Client;
+}
+
+/** Client with the configured base query, for use in the browser. */
+export const client = createClient();`);
+
+	return lines.join("\n") + "\n";
+}
+
+// ─── Errors ───────────────────────────────────────────────────
+
+/**
+ * Codes an endpoint's error responses can carry: those `configureHandler`
+ * sends for what the endpoint has, then the ones it declares.
+ */
+function endpointErrorCodes(ep: ParsedEndpoint): string[] {
+	const codes = new Set<string>();
+	if (ep.hasRequest || ep.multipart || ep.pagination) {
+		codes.add("BAD_REQUEST");
+		codes.add("VALIDATION_FAILED");
+	}
+	if (ep.isProtected) codes.add("UNAUTHORIZED");
+	if (ep.authorize) codes.add("FORBIDDEN");
+	codes.add("RATE_LIMITED");
+	codes.add("INTERNAL_ERROR");
+	for (const error of ep.errors) codes.add(error.code);
+	return [...codes];
+}
+
+/**
+ * errors.ts: for each endpoint, the union of the error responses it can
+ * send and a guard narrowing a hook's \`error\` to it.
+ */
+function generateErrorsTs(endpoints: ParsedEndpoint[]): string {
+	const lines: string[] = [];
+	lines.push(GENERATED_HEADER);
+	lines.push('import { type ApiError, isApiError } from "ertk";');
+	for (const ep of [...endpoints].sort((a, b) => a.name.localeCompare(b.name))) {
+		const typeName = `${capitalize(ep.name)}Error`;
+		const codes = endpointErrorCodes(ep).map((code) => JSON.stringify(code));
+		lines.push("");
+		lines.push(`/** Error response of \`${ep.name}\`. */`);
+		lines.push(`export type ${typeName} = ApiError<${codes.join(" | ")}>;`);
+		lines.push("");
+		lines.push(`export const is${typeName} = (error: unknown): error is ${typeName} =>`);
+		lines.push(`\tisApiError(error, [${codes.join(", ")}]);`);
+	}
+	return lines.join("\n") + "\n";
+}
+
+// ─── MSW Mocks ────────────────────────────────────────────────
+
+/** Value names declared by mocks.ts that imported types must not shadow. */
+const MOCKS_RESERVED_NAMES = [
+	"DefaultBodyType",
+	"http",
+	"HttpResponse",
+	"HttpResponseResolver",
+	"PathParams",
+	"RequestHandler",
+	"MockResponses",
+	"fixtures",
+	"MockOverrides",
+	"MOCK_PAGES",
+	"cursorPage",
+	"defaults",
+	"createHandlers",
+	"handlers",
+];
+
+/**
+ * MSW path for an endpoint's route under `baseUrl`, with dynamic
+ * segments as path-to-regexp params (`[id]` → `:id`, `[...path]` →
+ * `:path+`, `[[...slug]]` → `:slug*`).
+ */
+function mockPathFor(ep: ParsedEndpoint, config: ResolvedConfig): string {
+	const segments = ep.routePath
+		.split("/")
+		.slice(2)
+		.filter(Boolean)
+		.map((segment) => {
+			const param = parseRouteSegment(segment);
+			if (!param) return segment;
+			if (param.kind === "catch-all") return `:${param.name}+`;
+			if (param.kind === "optional-catch-all") return `:${param.name}*`;
+			return `:${param.name}`;
+		});
+	return [config.baseUrl.replace(/\/$/, ""), ...segments].join("/");
+}
+
+/** Sort key putting static segments before params, so MSW matches the most specific route. */
+function mockPathSortKey(mockPath: string): string {
+	return mockPath
+		.split("/")
+		.map((segment) =>
+			!segment.startsWith(":") ? `0${segment}` : /[+*]$/.test(segment) ? `2${segment}` : `1${segment}`,
+		)
+		.join("/");
+}
+
+function mockParamsType(ep: ParsedEndpoint): string {
+	if (ep.routeParams.length === 0) return "PathParams";
+	const members = ep.routeParams.map((param) =>
+		param.kind === "single"
+			? `${param.name}: string`
+			: param.kind === "catch-all"
+				? `${param.name}: string[]`
+				: `${param.name}?: string[]`,
+	);
+	return `{ ${members.join("; ")} }`;
+}
+
+/**
+ * Serves a cursor endpoint's fixture as a few pages: its next cursor is
+ * swapped for `page-2`, `page-3`, … and `null` on the last page, so
+ * infinite queries against the mocks end.
+ */
+const CURSOR_PAGE_HELPER = `
+/** Pages of a cursor-paginated fixture before its next cursor is \`null\`. */
+const MOCK_PAGES = 3;
+
+function cursorPage<T>(fixture: T, cursor: unknown, request: Request): T {
+\tif (cursor == null) return fixture;
+\tconst current = Number(new URL(request.url).searchParams.get("cursor")?.replace(/^page-/, "")) || 1;
+\tconst next = current < MOCK_PAGES ? \`page-\${current + 1}\` : null;
+\tconst replace = (value: unknown): unknown => {
+\t\tif (value === cursor) return next;
+\t\tif (Array.isArray(value)) return value.map(replace);
+\t\tif (typeof value !== "object" || value === null || Object.getPrototypeOf(value) !== Object.prototype) return value;
+\t\treturn Object.fromEntries(Object.entries(value).map(([key, entry]) => [key, replace(entry)]));
+\t};
+\treturn replace(fixture) as T;
+}
+`;
+
+/**
+ * mocks.ts: Mock Service Worker handlers at the routes the generator
+ * produces, serving each endpoint's fixture unless a test overrides it.
+ */
+function generateMocksTs(
+	endpoints: ParsedEndpoint[],
+	config: ResolvedConfig,
+): string {
+	const namer = createTypeNamer(MOCKS_RESERVED_NAMES);
+	const responses: string[] = [];
+	const fixtures: string[] = [];
+	const overrides: string[] = [];
+	const defaults: string[] = [];
+	const handlers: Array<{ path: string; line: string }> = [];
+
+	// Client-only endpoints have no route; their `query` may call any URL
+	for (const ep of endpoints.filter((ep) => ep.hasHandler)) {
+		const response = namer.render(ep.responseType);
+		responses.push(`\t${ep.name}: ${response === "void" ? "undefined" : response};`);
+		fixtures.push(`\t${ep.name}: ${ep.mockSource ? namer.render(ep.mockSource) : "null as never"},`);
+		if (ep.stream) {
+			// A stream serves its fixture as a single event
+			overrides.push(
+				`\t${ep.name}?: HttpResponseResolver<${mockParamsType(ep)}, DefaultBodyType>;`,
+			);
+			defaults.push(
+				`\t${ep.name}: () => new HttpResponse(\`data: \${JSON.stringify(fixtures.${ep.name})}\\n\\n\`, { headers: { "Content-Type": "text/event-stream" } }),`,
+			);
+		} else {
+			overrides.push(
+				`\t${ep.name}?: HttpResponseResolver<${mockParamsType(ep)}, DefaultBodyType, MockResponses["${ep.name}"]>;`,
+			);
+			if (ep.pagination?.strategy === "cursor") {
+				const pageFn = namer.render(ep.pagination.pageFnSource);
+				defaults.push(
+					`\t${ep.name}: ({ request }) => HttpResponse.json(cursorPage(fixtures.${ep.name}, (${pageFn})(fixtures.${ep.name}), request)),`,
+				);
+			} else {
+				defaults.push(`\t${ep.name}: () => HttpResponse.json(fixtures.${ep.name}),`);
+			}
+		}
+		const mockPath = mockPathFor(ep, config);
+		handlers.push({
+			path: mockPath,
+			line: `\t\thttp.${ep.method}("${mockPath}", overrides.${ep.name} ?? defaults.${ep.name}),`,
+		});
+	}
+	handlers.sort((a, b) =>
+		mockPathSortKey(a.path).localeCompare(mockPathSortKey(b.path)),
+	);
+	const hasCursorPages = endpoints.some(
+		(ep) => ep.hasHandler && !ep.stream && ep.pagination?.strategy === "cursor",
+	);
+
+	const lines: string[] = [];
+	lines.push(GENERATED_HEADER);
+	lines.push("import {");
+	lines.push("\ttype DefaultBodyType,");
+	lines.push("\thttp,");
+	lines.push("\tHttpResponse,");
+	lines.push("\ttype HttpResponseResolver,");
+	lines.push("\ttype PathParams,");
+	lines.push("\ttype RequestHandler,");
+	lines.push('} from "msw";');
+	lines.push(...namer.importLines());
+	for (const declaration of namer.hoistedDeclarations()) {
+		lines.push("");
+		lines.push(declaration);
+	}
+
+	lines.push(`
+/** Response body of each endpoint, or a single event of a stream. */
+export interface MockResponses {
+${responses.join("\n")}
+}
+
+/** Default responses: each endpoint's \`mock\`, or a placeholder built from its response type. */
+export const fixtures: MockResponses = {
+${fixtures.join("\n")}
+};
+
+/** Resolvers replacing the default response of individual endpoints. */
+export interface MockOverrides {
+${overrides.join("\n")}
+}
+${hasCursorPages ? CURSOR_PAGE_HELPER : ""}
+const defaults: Required<MockOverrides> = {
+${defaults.join("\n")}
+};
+
+/** Handlers for every endpoint, most specific route first. */
+export function createHandlers(overrides: MockOverrides = {}): RequestHandler[] {
+\treturn [
+${handlers.map((h) => h.line).join("\n")}
+\t];
+}
+
+export const handlers = createHandlers();`);
+
 	return lines.join("\n") + "\n";
 }
 
+// ─── Permissions ──────────────────────────────────────────────
+
+/**
+ * permissions.ts: each endpoint's access rule and a `can` check, so the
+ * UI can hide actions the user isn't allowed to perform.
+ */
+function generatePermissionsTs(endpoints: ParsedEndpoint[]): string {
+	const entries = [...endpoints]
+		.sort((a, b) => a.name.localeCompare(b.name))
+		.map((ep) => {
+			const list = (values: string[]) =>
+				`[${values.map((value) => JSON.stringify(value)).join(", ")}]`;
+			const fields = [`protected: ${ep.isProtected}`];
+			if (ep.authorize?.roles.length) {
+				fields.push(`roles: ${list(ep.authorize.roles)}`);
+			}
+			if (ep.authorize?.permissions.length) {
+				fields.push(`permissions: ${list(ep.authorize.permissions)}`);
+			}
+			if (ep.authorize?.custom) fields.push("custom: true");
+			return `\t${ep.name}: { ${fields.join(", ")} },`;
+		});
+
+	return `${GENERATED_HEADER}
+/** Access rule of an endpoint, from its \`protected\` and \`authorize\`. */
+export interface EndpointPermission {
+\treadonly protected: boolean;
+\t/** The user needs one of these roles */
+\treadonly roles?: readonly string[];
+\t/** The user needs all of these permissions */
+\treadonly permissions?: readonly string[];
+\t/** A predicate decides, which only the server can evaluate */
+\treadonly custom?: true;
+}
+
+export const endpointPermissions = {
+${entries.join("\n")}
+} as const satisfies Record<string, EndpointPermission>;
+
+export type PermissionedEndpoint = keyof typeof endpointPermissions;
+
+/** What \`can\` knows about the current user; null when signed out. */
+export interface PermissionSubject {
+\troles?: readonly string[];
+\tpermissions?: readonly string[];
+}
+
+/**
+ * Whether \`user\` may call an endpoint. Custom rules are checked by the
+ * server only and count as allowed for any signed-in user.
+ */
+export function can(
+\tuser: PermissionSubject | null | undefined,
+\tendpoint: PermissionedEndpoint,
+): boolean {
+\tconst rule: EndpointPermission = endpointPermissions[endpoint];
+\tif (!rule.protected) return true;
+\tif (!user) return false;
+\tif (rule.roles && !rule.roles.some((role) => user.roles?.includes(role))) {
+\t\treturn false;
+\t}
+\tif (
+\t\trule.permissions &&
+\t\t!rule.permissions.every((permission) => user.permissions?.includes(permission))
+\t) {
+\t\treturn false;
+\t}
+\treturn true;
+}
+`;
+}
+
 // ─── Incremental Build Helpers ────────────────────────────────
 
 function scanEndpointFiles(config: ResolvedConfig): string[] {
@@ -719,9 +2337,62 @@ function scanEndpointFiles(config: ResolvedConfig): string[] {
 		recursive: true,
 	}) as string[];
 	return allFiles
-		.filter((f) => f.endsWith(".ts"))
 		.map((f) => f.replace(/\\/g, "/"))
+		.filter(isEndpointPath)
+		.sort();
+}
+
+/**
+ * Files and folders starting with `_` are private, as in the Next.js app
+ * router: shared types and helpers can live next to the endpoints.
+ */
+function isEndpointPath(relPath: string): boolean {
+	return relPath.endsWith(".ts") && !isPrivatePath(relPath);
+}
+
+function isPrivatePath(relPath: string): boolean {
+	return relPath.split("/").some((part) => part.startsWith("_"));
+}
+
+/**
+ * Warnings for private files that define an endpoint, which would
+ * otherwise be skipped without a word (e.g. `tasks/_archive.ts`).
+ */
+function findPrivateEndpoints(
+	project: Project,
+	config: ResolvedConfig,
+): Diagnostic[] {
+	if (!fs.existsSync(config.endpointsDir)) return [];
+	const files = (fs.readdirSync(config.endpointsDir, { recursive: true }) as string[])
+		.map((f) => f.replace(/\\/g, "/"))
+		.filter((f) => f.endsWith(".ts") && isPrivatePath(f))
 		.sort();
+
+	const diagnostics: Diagnostic[] = [];
+	for (const file of files) {
+		const sourceFile = project.addSourceFileAtPath(
+			path.join(config.endpointsDir, file),
+		);
+		if (!sourceFile.getDefaultExportSymbol()) continue;
+		try {
+			if (!resolveDefaultExport(sourceFile)) continue;
+		} catch (err) {
+			if (!(err instanceof EndpointParseError)) throw err;
+		}
+		diagnostics.push(
+			diagnosticForFile(
+				sourceFile,
+				"warning",
+				"private-endpoint",
+				"Endpoint is in a path starting with `_`, which is private, and was skipped. Rename it to generate it",
+			),
+		);
+	}
+	return diagnostics;
+}
+
+function relativeToRoot(filePath: string, config: ResolvedConfig): string {
+	return path.relative(config.root, filePath).replace(/\\/g, "/");
 }
 
 function hashFile(filePath: string): string {
@@ -731,18 +2402,54 @@ function hashFile(filePath: string): string {
 		.digest("hex");
 }
 
-function loadManifest(config: ResolvedConfig): Record<string, string> {
+/** Version of the installed ertk package, recorded so upgrades regenerate. */
+const GENERATOR_VERSION: string = JSON.parse(
+	fs.readFileSync(new URL("../package.json", import.meta.url), "utf-8"),
+).version;
+
+/**
+ * Contents of `.ertk-manifest.json`. Everything that can change the
+ * output is recorded so unchanged runs can be skipped, along with every
+ * file ERTK emitted so that output whose endpoint disappeared can be
+ * removed on a later run.
+ */
+interface BuildManifest {
+	/** ertk version that produced the output */
+	version: string;
+	/** Hash of the resolved config and tsconfig.json */
+	configHash: string;
+	/** Endpoint file (relative to the endpoints dir) → MD5 of its contents */
+	endpoints: Record<string, string>;
+	/** Local files imported by endpoints, transitively (relative to the project root) → MD5 */
+	dependencies: Record<string, string>;
+	/** Emitted files, relative to the project root */
+	outputs: string[];
+}
+
+function emptyManifest(): BuildManifest {
+	return {
+		version: "",
+		configHash: "",
+		endpoints: {},
+		dependencies: {},
+		outputs: [],
+	};
+}
+
+function loadManifest(config: ResolvedConfig): BuildManifest {
 	try {
-		return JSON.parse(fs.readFileSync(config.manifestPath, "utf-8"));
+		const data = JSON.parse(fs.readFileSync(config.manifestPath, "utf-8"));
+		if (data.endpoints && Array.isArray(data.outputs)) {
+			return { ...emptyManifest(), ...data };
+		}
+		// Manifests written before output tracking only held endpoint hashes
+		return { ...emptyManifest(), endpoints: data };
 	} catch {
-		return {};
+		return emptyManifest();
 	}
 }
 
-function saveManifest(
-	manifest: Record<string, string>,
-	config: ResolvedConfig,
-): void {
+function saveManifest(manifest: BuildManifest, config: ResolvedConfig): void {
 	fs.writeFileSync(
 		config.manifestPath,
 		JSON.stringify(manifest, null, 2) + "\n",
@@ -760,6 +2467,127 @@ function buildManifest(
 	return manifest;
 }
 
+/**
+ * Fingerprint of everything in the config that affects output. tsconfig.json
+ * is included because its `paths` drive alias detection and type resolution.
+ */
+function fingerprintConfig(config: ResolvedConfig): string {
+	const tsconfigPath = path.join(config.root, "tsconfig.json");
+	const tsconfig = fs.existsSync(tsconfigPath)
+		? fs.readFileSync(tsconfigPath, "utf-8")
+		: "";
+	const resolved = JSON.stringify(config, (_key, value) =>
+		value instanceof Set ? [...value].sort() : value,
+	);
+	return crypto
+		.createHash("md5")
+		.update(resolved)
+		.update("\0")
+		.update(tsconfig)
+		.digest("hex");
+}
+
+/**
+ * Every local file the endpoints import, following imports and re-exports
+ * transitively, mapped to the endpoint files that reach it. Keys are
+ * relative to the root. Packages, in node_modules or linked from outside
+ * the project root, are left out, as are the endpoint files themselves.
+ */
+function dependencyGraph(
+	project: Project,
+	files: string[],
+	config: ResolvedConfig,
+): Map<string, Set<string>> {
+	const endpointPaths = new Set(
+		files.map((file) => path.join(config.endpointsDir, file)),
+	);
+	const graph = new Map<string, Set<string>>();
+
+	for (const file of files) {
+		const sourceFile = project.getSourceFile(
+			path.join(config.endpointsDir, file),
+		);
+		if (!sourceFile) continue;
+		const visited = new Set<SourceFile>();
+
+		const visit = (current: SourceFile): void => {
+			if (visited.has(current)) return;
+			visited.add(current);
+
+			const declarations = [
+				...current.getImportDeclarations(),
+				...current.getExportDeclarations(),
+			];
+			for (const declaration of declarations) {
+				const target = declaration.getModuleSpecifierSourceFile();
+				if (!target || target.isInNodeModules()) continue;
+
+				// Linked packages resolve to their real path outside the project
+				const filePath = target.getFilePath();
+				const dependency = relativeToRoot(filePath, config);
+				if (dependency.startsWith("../")) continue;
+				if (!endpointPaths.has(filePath)) {
+					if (!graph.has(dependency)) graph.set(dependency, new Set());
+					graph.get(dependency)!.add(file);
+				}
+				visit(target);
+			}
+		};
+		visit(sourceFile);
+	}
+
+	return graph;
+}
+
+/** Hash of each file in a dependency graph, by root-relative path. */
+function hashDependencies(
+	graph: Map<string, Set<string>>,
+	config: ResolvedConfig,
+): Record<string, string> {
+	return Object.fromEntries(
+		[...graph.keys()]
+			.sort((a, b) => a.localeCompare(b))
+			.map((dependency) => [
+				dependency,
+				hashFile(path.join(config.root, dependency)),
+			]),
+	);
+}
+
+/** Hash every local file the endpoints import, see `dependencyGraph`. */
+function collectDependencies(
+	project: Project,
+	files: string[],
+	config: ResolvedConfig,
+): Record<string, string> {
+	return hashDependencies(dependencyGraph(project, files, config), config);
+}
+
+/**
+ * Whether the previous run's output is still current: same ertk version,
+ * config, endpoint contents and dependency contents, and every emitted
+ * file still exists.
+ */
+function isUpToDate(
+	manifest: BuildManifest,
+	endpointHashes: Record<string, string>,
+	configHash: string,
+	config: ResolvedConfig,
+): boolean {
+	if (manifest.version !== GENERATOR_VERSION) return false;
+	if (manifest.configHash !== configHash) return false;
+	if (!manifestsMatch(manifest.endpoints, endpointHashes)) return false;
+
+	for (const [dependency, hash] of Object.entries(manifest.dependencies)) {
+		const filePath = path.join(config.root, dependency);
+		if (!fs.existsSync(filePath) || hashFile(filePath) !== hash) return false;
+	}
+
+	return manifest.outputs.every((output) =>
+		fs.existsSync(path.join(config.root, output)),
+	);
+}
+
 function manifestsMatch(
 	a: Record<string, string>,
 	b: Record<string, string>,
@@ -793,21 +2621,118 @@ function isIgnoredRoute(routeDir: string, config: ResolvedConfig): boolean {
 	return config.routes.ignoredRoutes.has(topLevel);
 }
 
+// ─── Output Ownership ─────────────────────────────────────────
+
+function isGeneratedFile(filePath: string): boolean {
+	try {
+		return fs.readFileSync(filePath, "utf-8").startsWith(GENERATED_HEADER);
+	} catch {
+		return false;
+	}
+}
+
+/**
+ * Write a generated file and record it in `outputs`. An existing file
+ * without the ERTK header was written by hand and is left alone.
+ * Returns false when the file was skipped.
+ */
+function writeOutput(
+	filePath: string,
+	content: string,
+	config: ResolvedConfig,
+	outputs: string[],
+): boolean {
+	if (fs.existsSync(filePath) && !isGeneratedFile(filePath)) {
+		console.warn(
+			`ERTK: Skipped ${relativeToRoot(filePath, config)} — it wasn't generated by ERTK. Remove it to let ERTK manage this file.`,
+		);
+		return false;
+	}
+	writeIfChanged(filePath, content);
+	outputs.push(relativeToRoot(filePath, config));
+	return true;
+}
+
+/**
+ * Remove files emitted by a previous run that the current run no longer
+ * produces (e.g. the route of a deleted endpoint), along with any
+ * directories left empty. Files edited to drop the header are kept.
+ */
+function removeOrphans(
+	previous: string[],
+	current: string[],
+	config: ResolvedConfig,
+): void {
+	const keep = new Set(current);
+	for (const output of previous) {
+		if (keep.has(output)) continue;
+		const filePath = path.join(config.root, output);
+		if (!isGeneratedFile(filePath)) continue;
+		fs.rmSync(filePath);
+		pruneEmptyDirs(path.dirname(filePath), config);
+		console.log(`ERTK: Removed stale ${output}`);
+	}
+}
+
+/**
+ * Delete every ERTK-generated file in the output directories, whether
+ * or not the manifest knows about it, plus the manifest itself.
+ */
+function cleanOutputs(config: ResolvedConfig): void {
+	let removed = 0;
+	const outputRoots = [config.generatedDir, config.routes?.dir];
+	for (const dir of outputRoots) {
+		if (!dir || !fs.existsSync(dir)) continue;
+		const entries = fs.readdirSync(dir, { recursive: true }) as string[];
+		for (const entry of entries) {
+			const filePath = path.join(dir, entry);
+			if (!fs.statSync(filePath).isFile()) continue;
+			if (!isGeneratedFile(filePath)) continue;
+			fs.rmSync(filePath);
+			pruneEmptyDirs(path.dirname(filePath), config);
+			removed++;
+		}
+	}
+	fs.rmSync(config.manifestPath, { force: true });
+	console.log(`ERTK: Cleaned ${removed} generated files.`);
+}
+
+/** Remove empty directories up to (not including) the output roots. */
+function pruneEmptyDirs(dir: string, config: ResolvedConfig): void {
+	const outputRoots = [config.generatedDir, config.routes?.dir].filter(
+		(root): root is string => !!root,
+	);
+	let current = dir;
+	while (
+		outputRoots.some((root) => {
+			const relative = path.relative(root, current);
+			return relative !== "" && !relative.startsWith("..") && !path.isAbsolute(relative);
+		}) &&
+		fs.existsSync(current) &&
+		fs.readdirSync(current).length === 0
+	) {
+		fs.rmdirSync(current);
+		current = path.dirname(current);
+	}
+}
+
 // ─── Core Generate Function ──────────────────────────────────
 
-function parseAllEndpoints(
+export function parseAllEndpoints(
 	project: Project,
 	config: ResolvedConfig,
+	diagnostics: Diagnostic[],
 ): Map<string, ParsedEndpoint> {
 	const files = scanEndpointFiles(config);
 	const cache = new Map<string, ParsedEndpoint>();
 
 	for (const file of files) {
-		const parsed = parseEndpointFile(project, file, config);
+		const parsed = parseEndpointFile(project, file, config, diagnostics);
 		if (parsed) {
 			cache.set(file, parsed);
 		}
 	}
+	diagnostics.push(...findPrivateEndpoints(project, config));
 
 	return cache;
 }
@@ -815,128 +2740,457 @@ function parseAllEndpoints(
 function generate(
 	endpoints: ParsedEndpoint[],
 	config: ResolvedConfig,
-): number {
+): { routeCount: number; outputs: string[] } {
 	fs.mkdirSync(config.generatedDir, { recursive: true });
+	const outputs: string[] = [];
 
 	// 1. Generate api.ts
 	const apiContent = generateApiTs(endpoints, config);
-	writeIfChanged(path.join(config.generatedDir, "api.ts"), apiContent);
+	writeOutput(
+		path.join(config.generatedDir, "api.ts"),
+		apiContent,
+		config,
+		outputs,
+	);
+
+	// 1b. Generate one file per domain (split mode)
+	if (config.splitByDomain) {
+		for (const [domain, domainEndpoints] of groupEndpointsByDomain(endpoints)) {
+			writeOutput(
+				path.join(config.generatedDir, `${domain}.ts`),
+				generateDomainTs(domain, domainEndpoints, endpoints),
+				config,
+				outputs,
+			);
+		}
+	}
 
 	// 2. Generate store.ts
-	writeIfChanged(
+	writeOutput(
 		path.join(config.generatedDir, "store.ts"),
 		generateStoreTs(),
+		config,
+		outputs,
 	);
 
 	// 3. Generate invalidation.ts
-	writeIfChanged(
+	writeOutput(
 		path.join(config.generatedDir, "invalidation.ts"),
 		generateInvalidationTs(),
+		config,
+		outputs,
+	);
+
+	// 4. Generate client.ts
+	writeOutput(
+		path.join(config.generatedDir, "client.ts"),
+		generateClientTs(endpoints, config),
+		config,
+		outputs,
+	);
+
+	// 4b. Generate errors.ts
+	writeOutput(
+		path.join(config.generatedDir, "errors.ts"),
+		generateErrorsTs(endpoints),
+		config,
+		outputs,
 	);
 
-	// 4. Generate route handlers (if routes config is present)
+	// 5. Generate mocks.ts (if enabled)
+	if (config.mocks) {
+		writeOutput(
+			path.join(config.generatedDir, "mocks.ts"),
+			generateMocksTs(endpoints, config),
+			config,
+			outputs,
+		);
+	}
+
+	// 6. Generate permissions.ts (if enabled)
+	if (config.permissions) {
+		writeOutput(
+			path.join(config.generatedDir, "permissions.ts"),
+			generatePermissionsTs(endpoints),
+			config,
+			outputs,
+		);
+	}
+
+	// 7. Generate route handlers (if routes config is present)
 	let routeCount = 0;
 	if (config.routes) {
 		const routeGroups = groupEndpointsByRoute(endpoints, config);
 		for (const [, group] of routeGroups) {
 			if (isIgnoredRoute(group.appRouteDir, config)) continue;
 			const routeContent = generateRouteFile(group, config);
-			writeIfChanged(
+			const written = writeOutput(
 				path.join(group.appRouteDir, "route.ts"),
 				routeContent,
+				config,
+				outputs,
 			);
-			routeCount++;
+			if (written) routeCount++;
 		}
 	}
 
-	return routeCount;
+	return { routeCount, outputs };
+}
+
+export function createProject(config: ResolvedConfig): Project {
+	return new Project({
+		tsConfigFilePath: path.join(config.root, "tsconfig.json"),
+		skipAddingFilesFromTsConfig: true,
+	});
+}
+
+export function printDiagnostics(
+	diagnostics: Diagnostic[],
+	config: ResolvedConfig,
+): void {
+	for (const diagnostic of diagnostics) {
+		const text = formatDiagnostic(diagnostic, config.root);
+		if (diagnostic.severity === "error") console.error(text);
+		else console.warn(text);
+	}
+}
+
+/**
+ * Whether the collected diagnostics should fail the run.
+ * Errors always do; warnings only in strict mode.
+ */
+export function hasFailures(diagnostics: Diagnostic[], strict: boolean): boolean {
+	const { errors, warnings } = summarizeDiagnostics(diagnostics);
+	return errors > 0 || (strict && warnings > 0);
 }
 
 // ─── Public API ───────────────────────────────────────────────
 
+export interface RunOptions {
+	/** Treat warnings (e.g. skipped non-endpoint files) as errors */
+	strict?: boolean;
+	/** Print diagnostics as JSON instead of formatted text (`ertk check` only) */
+	json?: boolean;
+	/** Delete all ERTK-generated files and rebuild without the cache */
+	clean?: boolean;
+	/** Regenerate even when the manifest says nothing changed */
+	force?: boolean;
+}
+
 /**
- * Run a one-shot generation. Skips if nothing changed (manifest comparison).
+ * Run a one-shot generation. Skips if nothing changed (manifest comparison),
+ * except in strict mode.
+ * Nothing is written when any endpoint fails to parse.
+ * Returns false when the run failed.
  */
-export function runGenerate(config: ResolvedConfig): void {
-	const tsProject = new Project({
-		tsConfigFilePath: path.join(config.root, "tsconfig.json"),
-		skipAddingFilesFromTsConfig: true,
-	});
+export function runGenerate(
+	config: ResolvedConfig,
+	options: RunOptions = {},
+): boolean {
+	const tsProject = createProject(config);
 
 	const files = scanEndpointFiles(config);
 
+	if (options.clean) cleanOutputs(config);
+
+	const oldManifest = loadManifest(config);
+	const configHash = fingerprintConfig(config);
+
+	// The last endpoint was deleted: its output goes with it
 	if (files.length === 0) {
+		removeOrphans(oldManifest.outputs, [], config);
+		if (fs.existsSync(path.dirname(config.manifestPath))) {
+			saveManifest(
+				{ ...emptyManifest(), version: GENERATOR_VERSION, configHash },
+				config,
+			);
+		}
 		console.log("ERTK: No endpoint files found.");
-		return;
+		return true;
 	}
 
-	const oldManifest = loadManifest(config);
-	const newManifest = buildManifest(files, config);
+	const hashes = buildManifest(files, config);
 
-	if (manifestsMatch(oldManifest, newManifest)) {
+	// Strict runs always parse, so the warnings they fail on are reported
+	if (
+		!options.force &&
+		!options.strict &&
+		isUpToDate(oldManifest, hashes, configHash, config)
+	) {
 		console.log("ERTK: Nothing changed.");
-		return;
+		return true;
 	}
 
-	const cache = parseAllEndpoints(tsProject, config);
-	const routeCount = generate([...cache.values()], config);
-	saveManifest(newManifest, config);
+	const diagnostics: Diagnostic[] = [];
+	const cache = parseAllEndpoints(tsProject, config, diagnostics);
+	diagnostics.push(...findConflicts([...cache.values()], config));
+
+	printDiagnostics(diagnostics, config);
+
+	if (hasFailures(diagnostics, options.strict ?? false)) {
+		const { errors, warnings } = summarizeDiagnostics(diagnostics);
+		console.error(
+			`ERTK: Generation failed with ${errors} errors and ${warnings} warnings.`,
+		);
+		return false;
+	}
+
+	const { routeCount, outputs } = generate([...cache.values()], config);
+	removeOrphans(oldManifest.outputs, outputs, config);
+	saveManifest(
+		{
+			version: GENERATOR_VERSION,
+			configHash,
+			endpoints: hashes,
+			dependencies: collectDependencies(tsProject, files, config),
+			outputs,
+		},
+		config,
+	);
 
 	const routeMsg = config.routes ? `, ${routeCount} routes` : "";
 	console.log(`ERTK: Generated ${cache.size} endpoints${routeMsg}.`);
+	return true;
+}
+
+/**
+ * Parse every endpoint file and report diagnostics without writing
+ * any output. Returns false when errors (or, in strict mode, warnings)
+ * were found.
+ */
+export function runCheck(
+	config: ResolvedConfig,
+	options: RunOptions = {},
+): boolean {
+	const tsProject = createProject(config);
+	const diagnostics: Diagnostic[] = [];
+	const cache = parseAllEndpoints(tsProject, config, diagnostics);
+	diagnostics.push(...findConflicts([...cache.values()], config));
+	const failed = hasFailures(diagnostics, options.strict ?? false);
+
+	if (options.json) {
+		console.log(formatDiagnosticsJson(diagnostics));
+		return !failed;
+	}
+
+	printDiagnostics(diagnostics, config);
+	const { errors, warnings } = summarizeDiagnostics(diagnostics);
+	console.log(
+		`ERTK: Checked ${cache.size} endpoints — ${errors} errors, ${warnings} warnings.`,
+	);
+	return !failed;
 }
 
 /**
  * Run generation in watch mode. Does an initial full build, then
  * watches for changes and incrementally regenerates.
  */
-export function runWatch(config: ResolvedConfig): void {
-	const tsProject = new Project({
-		tsConfigFilePath: path.join(config.root, "tsconfig.json"),
-		skipAddingFilesFromTsConfig: true,
-	});
+export function runWatch(
+	config: ResolvedConfig,
+	options: RunOptions = {},
+): void {
+	const tsProject = createProject(config);
+	if (options.clean) cleanOutputs(config);
+
+	// Files that failed to parse; output stays as it was until they are fixed
+	const broken = new Set<string>();
+	const diagnostics: Diagnostic[] = [];
+	const cache = new Map<string, ParsedEndpoint>();
+	for (const file of scanEndpointFiles(config)) {
+		const fileDiagnostics: Diagnostic[] = [];
+		const parsed = parseEndpointFile(tsProject, file, config, fileDiagnostics);
+		diagnostics.push(...fileDiagnostics);
+		if (hasFailures(fileDiagnostics, false)) broken.add(file);
+		else if (parsed) cache.set(file, parsed);
+	}
+	diagnostics.push(...findPrivateEndpoints(tsProject, config));
+	printDiagnostics(diagnostics, config);
+
+	// Imported files (helpers, presets, shared types) → endpoints using them
+	let graph = dependencyGraph(tsProject, [...cache.keys(), ...broken], config);
+	const manifest: BuildManifest = {
+		version: GENERATOR_VERSION,
+		configHash: fingerprintConfig(config),
+		endpoints: buildManifest(scanEndpointFiles(config), config),
+		dependencies: hashDependencies(graph, config),
+		outputs: loadManifest(config).outputs,
+	};
 
-	const cache = parseAllEndpoints(tsProject, config);
-	const routeCount = generate([...cache.values()], config);
-	const manifest = buildManifest(scanEndpointFiles(config), config);
-	saveManifest(manifest, config);
+	/**
+	 * Regenerate from the cache unless a file fails to parse or endpoints
+	 * conflict, in which case the previous output stays until it is fixed.
+	 */
+	const regenerate = (): number | null => {
+		if (broken.size > 0) {
+			console.error(
+				`ERTK: ${broken.size} endpoint files have errors — output not updated.`,
+			);
+			return null;
+		}
+		const conflicts = findConflicts([...cache.values()], config);
+		if (conflicts.length > 0) {
+			printDiagnostics(conflicts, config);
+			console.error(
+				`ERTK: ${conflicts.length} conflicting endpoints — output not updated.`,
+			);
+			return null;
+		}
+		const { routeCount, outputs } = generate([...cache.values()], config);
+		removeOrphans(manifest.outputs, outputs, config);
+		manifest.outputs = outputs;
+		manifest.dependencies = hashDependencies(graph, config);
+		saveManifest(manifest, config);
+		return routeCount;
+	};
 
-	const routeMsg = config.routes ? `, ${routeCount} routes ready` : "";
+	const routeCount = regenerate();
+	const routeMsg =
+		config.routes && routeCount != null ? `, ${routeCount} routes ready` : "";
 	console.log(
 		`ERTK: Watching — ${cache.size} endpoints${routeMsg}.`,
 	);
 
-	let debounceTimer: ReturnType<typeof setTimeout> | null = null;
+	/**
+	 * Apply one changed path to the cache. Returns true when the output
+	 * needs regenerating. `force` reparses an endpoint whose own contents
+	 * are unchanged, after a file it imports changed.
+	 */
+	const applyChange = (relPath: string, force = false): boolean => {
+		const fullPath = path.join(config.endpointsDir, relPath);
+
+		// Directory events: a removed folder takes its endpoints with it,
+		// an added one (e.g. moved in) brings its files
+		if (!relPath.endsWith(".ts")) {
+			if (fs.existsSync(fullPath)) {
+				if (!fs.statSync(fullPath).isDirectory()) return false;
+				const prefix = `${relPath}/`;
+				return scanEndpointFiles(config)
+					.filter((file) => file.startsWith(prefix))
+					.map((file) => applyChange(file))
+					.some(Boolean);
+			}
+			const prefix = `${relPath}/`;
+			const removed = [...cache.keys()].filter((file) =>
+				file.startsWith(prefix),
+			);
+			for (const file of removed) {
+				delete manifest.endpoints[file];
+				cache.delete(file);
+				broken.delete(file);
+				console.log(`ERTK: Removed ${file}`);
+			}
+			return removed.length > 0;
+		}
+		if (!isEndpointPath(relPath)) return false;
+
+		if (!fs.existsSync(fullPath)) {
+			delete manifest.endpoints[relPath];
+			cache.delete(relPath);
+			broken.delete(relPath);
+			console.log(`ERTK: Removed ${relPath}`);
+			return true;
+		}
 
-	fs.watch(config.endpointsDir, { recursive: true }, (_event, filename) => {
-		if (!filename?.endsWith(".ts")) return;
-		if (debounceTimer) clearTimeout(debounceTimer);
+		const hash = hashFile(fullPath);
+		if (!force && manifest.endpoints[relPath] === hash) return false;
+		manifest.endpoints[relPath] = hash;
 
-		debounceTimer = setTimeout(() => {
-			const relPath = filename.replace(/\\/g, "/");
-			const fullPath = path.join(config.endpointsDir, relPath);
+		const existing = tsProject.getSourceFile(fullPath);
+		if (existing) existing.forget();
 
-			if (fs.existsSync(fullPath)) {
-				const hash = hashFile(fullPath);
-				if (manifest[relPath] === hash) return;
-				manifest[relPath] = hash;
+		const fileDiagnostics: Diagnostic[] = [];
+		const parsed = parseEndpointFile(
+			tsProject,
+			relPath,
+			config,
+			fileDiagnostics,
+		);
+		printDiagnostics(fileDiagnostics, config);
 
-				const existing = tsProject.getSourceFile(fullPath);
-				if (existing) existing.forget();
+		if (hasFailures(fileDiagnostics, false)) {
+			// Keep watching; the previous output stays until the file is fixed
+			delete manifest.endpoints[relPath];
+			broken.add(relPath);
+			return false;
+		}
+		broken.delete(relPath);
 
-				const parsed = parseEndpointFile(tsProject, relPath, config);
-				if (parsed) {
-					cache.set(relPath, parsed);
-					console.log(`ERTK: Updated ${parsed.name}`);
-				}
-			} else {
-				delete manifest[relPath];
-				cache.delete(relPath);
-				console.log(`ERTK: Removed ${relPath}`);
-			}
+		if (parsed) {
+			cache.set(relPath, parsed);
+			console.log(`ERTK: Updated ${parsed.name}`);
+		} else {
+			cache.delete(relPath);
+		}
+		return true;
+	};
+
+	let debounceTimer: ReturnType<typeof setTimeout> | null = null;
+	const pending = new Set<string>();
+
+	const applyPending = (): void => {
+		const changed = [...pending];
+		pending.clear();
+
+		// Reload changed imports first, so their endpoints reparse against them
+		const affected = new Set<string>();
+		for (const fullPath of changed) {
+			const dependents = graph.get(relativeToRoot(fullPath, config));
+			if (!dependents) continue;
+			tsProject.getSourceFile(fullPath)?.refreshFromFileSystemSync();
+			for (const file of dependents) affected.add(file);
+		}
 
-			generate([...cache.values()], config);
-			saveManifest(manifest, config);
-		}, 300);
+		let dirty = false;
+		for (const fullPath of changed) {
+			const relPath = path
+				.relative(config.endpointsDir, fullPath)
+				.replace(/\\/g, "/");
+			if (relPath.startsWith("../")) continue;
+			dirty = applyChange(relPath, affected.delete(relPath)) || dirty;
+		}
+		for (const file of affected) {
+			dirty = applyChange(file, true) || dirty;
+		}
+
+		graph = dependencyGraph(tsProject, [...cache.keys(), ...broken], config);
+		watchDependencies();
+		if (dirty) regenerate();
+	};
+
+	const schedule = (fullPath: string): void => {
+		pending.add(fullPath);
+		if (debounceTimer) clearTimeout(debounceTimer);
+		debounceTimer = setTimeout(applyPending, 300);
+	};
+
+	fs.watch(config.endpointsDir, { recursive: true }, (_event, filename) => {
+		if (filename) schedule(path.join(config.endpointsDir, filename));
 	});
+
+	// Imported files outside the endpoints directory, watched by folder
+	const watchers = new Map<string, fs.FSWatcher>();
+	const watchDependencies = (): void => {
+		const inEndpoints = (dir: string) =>
+			`${dir}${path.sep}`.startsWith(`${config.endpointsDir}${path.sep}`);
+		const dirs = new Set(
+			[...graph.keys()]
+				.map((dependency) => path.dirname(path.join(config.root, dependency)))
+				.filter((dir) => !inEndpoints(dir)),
+		);
+		for (const [dir, watcher] of watchers) {
+			if (dirs.has(dir)) continue;
+			watcher.close();
+			watchers.delete(dir);
+		}
+		for (const dir of dirs) {
+			if (watchers.has(dir) || !fs.existsSync(dir)) continue;
+			watchers.set(
+				dir,
+				fs.watch(dir, (_event, filename) => {
+					if (filename) schedule(path.join(dir, filename));
+				}),
+			);
+		}
+	};
+	watchDependencies();
 }
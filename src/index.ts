@@ -1,17 +1,56 @@
 // Core
 export { endpoint } from "./endpoint.js";
 export { defineConfig } from "./define-config.js";
+export { decodeQuery, encodeQuery } from "./query-string.js";
+export {
+	HttpError,
+	BadRequest,
+	Unauthorized,
+	Forbidden,
+	NotFound,
+	Conflict,
+	UnprocessableEntity,
+	TooManyRequests,
+	isApiError,
+	type ApiError,
+	type BuiltInErrorCode,
+	type ErrorBody,
+	type HttpErrorClass,
+	type HttpErrorOptions,
+} from "./errors.js";
 
 // Types
 export type {
 	EndpointDefinition,
 	HandlerContext,
+	HandlerResponse,
+	RespondInit,
+	ResponseCookie,
+	CookieOptions,
+	GlobalContext,
+	Middleware,
+	MiddlewareContext,
+	EndpointContext,
+	RequestContext,
+	AccessRule,
+	AuthorizePredicate,
+	InfiniteEndpointConfig,
+	StreamEndpointConfig,
+	StreamEndpointDefinition,
+	CursorPage,
+	OffsetPage,
+	PaginationStrategy,
+	RouteParams,
+	MultipartConfig,
 	DefaultUser,
 	ValidationSchema,
+	RequestSchema,
+	RequestSchemas,
 	TagType,
 	TagDescription,
 	SingleOptimistic,
 	MultiOptimistic,
 	ErtkConfig,
 	ErtkRoutesConfig,
+	ErtkOpenApiConfig,
 } from "./types.js";
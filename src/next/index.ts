@@ -3,7 +3,11 @@ export {
 	createRouteHandler,
 	type ErtkAuthAdapter,
 	type ErtkErrorHandler,
+	type ErtkLogger,
 	type ConfigureHandlerOptions,
+	type RequestEvent,
+	type ResponseEvent,
+	type RequestErrorEvent,
 } from "./route-handler.js";
 
 export {
@@ -126,6 +126,15 @@ export class InMemoryRateLimitAdapter implements RateLimitAdapter {
 		return { allowed: true, limit: max, remaining, resetAt };
 	}
 
+	/** Forget recorded requests for one key, or for every key. */
+	reset(key?: string): void {
+		if (key === undefined) {
+			this.windows.clear();
+		} else {
+			this.windows.delete(key);
+		}
+	}
+
 	private maybePrune(now: number, windowMs: number): void {
 		if (now - this.lastPrune < this.pruneIntervalMs) return;
 		this.lastPrune = now;
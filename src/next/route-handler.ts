@@ -6,7 +6,24 @@
  * auth or database implementation.
  */
 
-import type { EndpointDefinition } from "../types.js";
+import type {
+	AccessRule,
+	CursorPage,
+	EndpointDefinition,
+	HandlerResponse,
+	DefaultUser,
+	Middleware,
+	MiddlewareContext,
+	MultipartConfig,
+	OffsetPage,
+	RequestSchema,
+	RequestSchemas,
+	RespondInit,
+	ResponseCookie,
+	ValidationSchema,
+} from "../types.js";
+import { codeForStatus, type ErrorBody, HttpError } from "../errors.js";
+import { decodeQuery } from "../query-string.js";
 import {
 	defaultKeyFn,
 	InMemoryRateLimitAdapter,
@@ -28,14 +45,65 @@ export interface ErtkAuthAdapter<
 	 * Return null if the user is not authenticated.
 	 */
 	getUser: (req: Request) => Promise<TUser | null>;
+
+	/**
+	 * Roles checked by `authorize`. Default: the user's `roles` array,
+	 * or its `role` string
+	 */
+	getRoles?: (user: TUser) => string[] | Promise<string[]>;
+
+	/** Permissions checked by `authorize`. Default: the user's `permissions` array */
+	getPermissions?: (user: TUser) => string[] | Promise<string[]>;
 }
 
 /**
  * Error handler interface. Consumers can provide custom error
- * handling logic (e.g., for ORM-specific errors).
+ * handling logic (e.g., for ORM-specific errors). Return an `HttpError`
+ * to send it like a thrown one.
  */
 export interface ErtkErrorHandler {
-	(error: unknown): Response | null;
+	(error: unknown): Response | HttpError | null;
+}
+
+/**
+ * Logger for errors the route handler can't send to the client, e.g. a
+ * handler's unexpected error. `console` fits; so do pino and winston.
+ */
+export interface ErtkLogger {
+	error: (message: string, meta?: Record<string, unknown>) => void;
+	warn: (message: string, meta?: Record<string, unknown>) => void;
+}
+
+/** The request passed to `onRequest`, and to the other hooks. */
+export interface RequestEvent {
+	/** `x-request-id` of the request, or a generated UUID. Echoed on the response. */
+	requestId: string;
+	/** Endpoint name, e.g. `getTask` */
+	endpoint: string;
+	/** Route pattern, e.g. `/api/tasks/[id]`, or the URL path if the handler has none */
+	route: string;
+	/** HTTP method, e.g. `GET` */
+	method: string;
+	req: Request;
+}
+
+/** Passed to `onResponse` once the response is ready to send. */
+export interface ResponseEvent extends RequestEvent {
+	/** Resolved on protected endpoints; `null` otherwise or when unauthenticated */
+	userId: string | null;
+	status: number;
+	/** Milliseconds since the request arrived. For streams, until the first event. */
+	duration: number;
+	response: Response;
+}
+
+/**
+ * Passed to `onError` for an error thrown by a handler, middleware or
+ * adapter. `status` is the one sent; a stream's error after its first
+ * event keeps the 200 already sent.
+ */
+export interface RequestErrorEvent extends Omit<ResponseEvent, "response"> {
+	error: unknown;
 }
 
 /**
@@ -54,6 +122,36 @@ export interface ConfigureHandlerOptions {
 	 * Omit to disable rate limiting entirely.
 	 */
 	rateLimit?: RateLimitConfig;
+
+	/**
+	 * End a stream with an `error` event at an event that doesn't match
+	 * the endpoint's `response` schema. By default the event is logged as
+	 * a warning and left out. A mismatched handler result is answered
+	 * with a 500 either way, never sent unshaped.
+	 */
+	strictResponses?: boolean;
+
+	/**
+	 * Middleware run around every handler, before the endpoint's own
+	 * `middleware`. Type what it adds to `ctx.context` by augmenting
+	 * `GlobalContext`.
+	 */
+	middleware?: Middleware<any>[];
+
+	/** Logger for unexpected errors and response schema mismatches. Default: `console` */
+	logger?: ErtkLogger;
+
+	/** Called when a request arrives, before it is parsed. */
+	onRequest?: (event: RequestEvent) => void | Promise<void>;
+
+	/**
+	 * Called with every response, errors included, before it is sent.
+	 * Use it for access logs and metrics.
+	 */
+	onResponse?: (event: ResponseEvent) => void | Promise<void>;
+
+	/** Called with every error thrown while handling a request, before `onResponse`. */
+	onError?: (event: RequestErrorEvent) => void | Promise<void>;
 }
 
 // ─── Validation Error ─────────────────────────────────────────
@@ -72,45 +170,147 @@ class ValidationError extends Error {
 
 const QUERY_METHODS = new Set(["GET", "DELETE", "HEAD", "OPTIONS"]);
 
+/** Handler context fields read from the request. */
+interface ParsedRequest {
+	body?: unknown;
+	query?: unknown;
+	params: unknown;
+	headers: unknown;
+	files: Record<string, File[]>;
+}
+
+function isRequestSchemas(
+	request: RequestSchema | undefined,
+): request is RequestSchemas {
+	return (
+		typeof request === "object" &&
+		request !== null &&
+		typeof (request as ValidationSchema).parse !== "function"
+	);
+}
+
 async function parseAndValidateRequest(
 	req: Request,
-	schema?: { parse: (data: unknown) => unknown },
-): Promise<{ body?: unknown; query?: unknown }> {
+	def: EndpointDefinition<any, any, any, any, any>,
+	params: Record<string, unknown>,
+): Promise<ParsedRequest> {
+	const schema = def.request;
+	if (isRequestSchemas(schema)) {
+		return parseRequestParts(req, def, schema, params);
+	}
+
 	const method = req.method.toUpperCase();
 	const isQueryMethod = QUERY_METHODS.has(method);
+	const headers = headersObject(req);
 
 	if (isQueryMethod) {
-		if (!schema) return { query: undefined };
-
-		const url = new URL(req.url);
-		const params: Record<string, string | number> = {};
-		url.searchParams.forEach((value, key) => {
-			const numValue = Number(value);
-			params[key] = Number.isNaN(numValue) ? value : numValue;
-		});
+		if (!schema) return { query: undefined, params, headers, files: {} };
 
 		try {
-			const data = schema.parse(params);
-			return { query: data };
+			const data = schema.parse(searchParamsObject(req, def));
+			return { query: data, params, headers, files: {} };
 		} catch (err) {
 			throw toValidationError(err);
 		}
-	} else {
-		if (!schema) return { body: undefined };
+	}
 
-		let body: unknown;
-		try {
-			body = await req.json();
-		} catch {
-			throw new ValidationError("Invalid JSON in request body");
-		}
+	if (!schema && !def.multipart) {
+		return { body: undefined, params, headers, files: {} };
+	}
+	const { body, files } = await readBody(req, def);
+	if (!schema) return { body, params, headers, files };
 
+	try {
+		return { body: schema.parse(body), params, headers, files };
+	} catch (err) {
+		throw toValidationError(err);
+	}
+}
+
+/**
+ * Validate each part of the request with its own schema, collecting the
+ * issues of all parts before failing.
+ */
+async function parseRequestParts(
+	req: Request,
+	def: EndpointDefinition<any, any, any, any, any>,
+	schemas: RequestSchemas,
+	params: Record<string, unknown>,
+): Promise<ParsedRequest> {
+	const hasBody = !QUERY_METHODS.has(req.method.toUpperCase());
+	const { body, files } =
+		hasBody && (schemas.body || def.multipart)
+			? await readBody(req, def)
+			: { body: undefined, files: {} };
+
+	const issues: Array<{ path: string; message: string }> = [];
+	const parsePart = (
+		part: keyof RequestSchemas,
+		input: unknown,
+		fallback: unknown,
+	): unknown => {
+		const schema = schemas[part];
+		if (!schema) return fallback;
 		try {
-			const data = schema.parse(body);
-			return { body: data };
+			return schema.parse(input);
 		} catch (err) {
-			throw toValidationError(err);
+			const error = toValidationError(err);
+			for (const issue of error.issues ?? [{ path: "", message: error.message }]) {
+				issues.push({
+					path: issue.path ? `${part}.${issue.path}` : part,
+					message: issue.message,
+				});
+			}
+			return undefined;
 		}
+	};
+
+	const headers = headersObject(req);
+	const parsed: ParsedRequest = {
+		params: parsePart("params", params, params),
+		query: parsePart("query", searchParamsObject(req, def), undefined),
+		body: hasBody ? parsePart("body", body, undefined) : undefined,
+		headers: parsePart("headers", headers, headers),
+		files,
+	};
+	if (issues.length > 0) throw new ValidationError("Validation failed", issues);
+	return parsed;
+}
+
+/** The decoded query string, leaving out the page params. */
+function searchParamsObject(
+	req: Request,
+	def: EndpointDefinition<any, any, any, any, any>,
+): Record<string, unknown> {
+	const search = new URL(req.url).searchParams;
+	// Page params of infinite endpoints aren't endpoint args
+	if (def.pagination) {
+		for (const key of pageParams(def.pagination)) search.delete(key);
+	}
+	return decodeQuery(search);
+}
+
+function headersObject(req: Request): Record<string, string> {
+	return Object.fromEntries(req.headers);
+}
+
+/** The JSON body, or the fields and files of a `multipart` endpoint. */
+async function readBody(
+	req: Request,
+	def: EndpointDefinition<any, any, any, any, any>,
+): Promise<{ body: unknown; files: Record<string, File[]> }> {
+	if (def.multipart) {
+		const { fields, files } = await parseMultipart(
+			req,
+			def.multipart === true ? {} : def.multipart,
+		);
+		return { body: fields, files };
+	}
+
+	try {
+		return { body: await req.json(), files: {} };
+	} catch {
+		throw new ValidationError("Invalid JSON in request body");
 	}
 }
 
@@ -138,6 +338,207 @@ function toValidationError(err: unknown): ValidationError {
 	return new ValidationError("Validation failed");
 }
 
+// ─── Response Shaping ─────────────────────────────────────────
+
+class ResponseValidationError extends Error {
+	public issues?: Array<{ path: string; message: string }>;
+
+	constructor(endpoint: string, issues?: Array<{ path: string; message: string }>) {
+		super(`Response of "${endpoint}" doesn't match its response schema`);
+		this.name = "ResponseValidationError";
+		this.issues = issues;
+	}
+}
+
+/** Returned by `shapeEvent` for a stream event to leave out. */
+const SKIP_EVENT = Symbol("skip event");
+
+/**
+ * Parse a handler's result with the endpoint's `response` schema. A
+ * mismatch throws: the unchecked result may hold fields the schema is
+ * there to strip, so it is never sent.
+ */
+function shapeResponse(
+	def: EndpointDefinition<any, any, any, any, any>,
+	value: unknown,
+): unknown {
+	if (!def.response) return value;
+	try {
+		return def.response.parse(value);
+	} catch (err) {
+		throw new ResponseValidationError(def.name, toValidationError(err).issues);
+	}
+}
+
+/**
+ * Parse a stream's event like `shapeResponse`. Outside strict mode a
+ * mismatched event is logged and left out instead of ending the stream.
+ */
+function shapeEvent(
+	def: EndpointDefinition<any, any, any, any, any>,
+	event: unknown,
+	strict: boolean,
+	log: RequestLog,
+): unknown {
+	try {
+		return shapeResponse(def, event);
+	} catch (error) {
+		if (strict || !(error instanceof ResponseValidationError)) throw error;
+		log.logger.warn(`ERTK ${error.message}`, { ...log.meta, issues: error.issues });
+		return SKIP_EVENT;
+	}
+}
+
+// ─── Multipart ────────────────────────────────────────────────
+
+const DEFAULT_MAX_FILE_SIZE = 10 * 1024 * 1024;
+const DEFAULT_MAX_FILES = 10;
+/** Room for text fields and part headers on top of the largest files allowed */
+const MULTIPART_OVERHEAD = 1024 * 1024;
+
+/**
+ * Split a `multipart/form-data` body into text fields and files, checking
+ * the files against the endpoint's limits. A field sent more than once
+ * becomes an array.
+ */
+async function parseMultipart(
+	req: Request,
+	config: MultipartConfig,
+): Promise<{ fields: Record<string, unknown>; files: Record<string, File[]> }> {
+	const maxFileSize = config.maxFileSize ?? DEFAULT_MAX_FILE_SIZE;
+	const maxFiles = config.maxFiles ?? DEFAULT_MAX_FILES;
+
+	// A body that can't fit the limits is refused before it is buffered:
+	// by its Content-Length, or once that many bytes have arrived
+	const maxBodySize = maxFileSize * maxFiles + MULTIPART_OVERHEAD;
+	const tooLarge = new ValidationError("Validation failed", [
+		{ path: "", message: `Request body is larger than ${maxBodySize} bytes` },
+	]);
+	if (Number(req.headers.get("content-length")) > maxBodySize) throw tooLarge;
+
+	let form: FormData;
+	let exceeded = false;
+	try {
+		form = await limitBody(req, maxBodySize, () => {
+			exceeded = true;
+		}).formData();
+	} catch {
+		if (exceeded) throw tooLarge;
+		throw new ValidationError("Invalid multipart/form-data request body");
+	}
+
+	const fields: Record<string, unknown> = {};
+	const files: Record<string, File[]> = {};
+	const issues: Array<{ path: string; message: string }> = [];
+	let fileCount = 0;
+
+	form.forEach((value, key) => {
+		if (typeof value === "string") {
+			const existing = fields[key];
+			fields[key] =
+				existing === undefined
+					? value
+					: Array.isArray(existing)
+						? [...existing, value]
+						: [existing, value];
+			return;
+		}
+
+		fileCount++;
+		if (value.size > maxFileSize) {
+			issues.push({
+				path: key,
+				message: `File "${value.name}" is larger than ${maxFileSize} bytes`,
+			});
+		}
+		if (config.accept && !acceptsType(config.accept, value.type)) {
+			issues.push({
+				path: key,
+				message: `File "${value.name}" has unsupported type "${value.type || "unknown"}"`,
+			});
+		}
+		(files[key] ??= []).push(value);
+	});
+
+	if (fileCount > maxFiles) {
+		issues.unshift({ path: "", message: `At most ${maxFiles} files are allowed` });
+	}
+	if (issues.length > 0) throw new ValidationError("Validation failed", issues);
+
+	return { fields, files };
+}
+
+/** `req` as a response whose body fails, calling `onExceeded`, past `limit` bytes. */
+function limitBody(req: Request, limit: number, onExceeded: () => void): Response {
+	let size = 0;
+	const body = req.body?.pipeThrough(
+		new TransformStream<Uint8Array, Uint8Array>({
+			transform(chunk, controller) {
+				size += chunk.byteLength;
+				if (size > limit) {
+					onExceeded();
+					controller.error(new Error(`Body is larger than ${limit} bytes`));
+					return;
+				}
+				controller.enqueue(chunk);
+			},
+		}),
+	);
+	return new Response(body, { headers: req.headers });
+}
+
+/** Whether a MIME type matches an `accept` list (`image/*` matches `image/png`). */
+function acceptsType(accept: string[], type: string): boolean {
+	const [group] = type.split("/");
+	return accept.some((pattern) =>
+		pattern.endsWith("/*") ? pattern.slice(0, -2) === group : pattern === type,
+	);
+}
+
+// ─── Pagination ───────────────────────────────────────────────
+
+type Pagination = NonNullable<EndpointDefinition["pagination"]>;
+
+/** Query parameters that carry the page rather than endpoint args. */
+function pageParams(pagination: Pagination): string[] {
+	return [pagination.strategy === "cursor" ? "cursor" : "offset", "limit"];
+}
+
+/** Read the requested page, with `limit` capped at the page size. */
+function parsePage(
+	req: Request,
+	pagination: Pagination,
+): CursorPage | OffsetPage {
+	const search = new URL(req.url).searchParams;
+	const issues: Array<{ path: string; message: string }> = [];
+
+	const readInteger = (key: string, min: number): number | undefined => {
+		const raw = search.get(key);
+		if (raw === null || raw === "") return undefined;
+		const value = Number(raw);
+		if (!Number.isInteger(value) || value < min) {
+			issues.push({
+				path: key,
+				message: `Expected an integer of at least ${min}`,
+			});
+			return undefined;
+		}
+		return value;
+	};
+
+	const limit = Math.min(
+		readInteger("limit", 1) ?? pagination.pageSize,
+		pagination.pageSize,
+	);
+	const page: CursorPage | OffsetPage =
+		pagination.strategy === "cursor"
+			? { cursor: search.get("cursor") || null, limit }
+			: { offset: readInteger("offset", 0) ?? 0, limit };
+
+	if (issues.length > 0) throw new ValidationError("Validation failed", issues);
+	return page;
+}
+
 // ─── JSON Helpers ─────────────────────────────────────────────
 
 function jsonResponse(data: unknown, status = 200): Response {
@@ -147,8 +548,200 @@ function jsonResponse(data: unknown, status = 200): Response {
 	});
 }
 
-function errorResponse(message: string, status: number): Response {
-	return jsonResponse({ error: message }, status);
+function errorResponse(
+	message: string,
+	status: number,
+	code = codeForStatus(status),
+): Response {
+	return jsonResponse({ error: message, code } satisfies ErrorBody, status);
+}
+
+// ─── Responses ────────────────────────────────────────────────
+
+/** Statuses sent without a body, whatever the handler's data */
+const NO_BODY_STATUSES = new Set([204, 205, 304]);
+
+class EndpointResponse<T> implements HandlerResponse<T> {
+	constructor(
+		readonly data: T,
+		readonly init: RespondInit = {},
+	) {}
+}
+
+function respond<T>(data: T, init?: RespondInit): HandlerResponse<T> {
+	return new EndpointResponse(data, init);
+}
+
+/** `Set-Cookie` header value, e.g. `session=abc; Path=/; HttpOnly` */
+function serializeCookie(cookie: ResponseCookie): string {
+	const parts = [
+		`${cookie.name}=${encodeURIComponent(cookie.value)}`,
+		`Path=${cookie.path ?? "/"}`,
+	];
+	if (cookie.maxAge !== undefined) parts.push(`Max-Age=${Math.floor(cookie.maxAge)}`);
+	if (cookie.expires) parts.push(`Expires=${cookie.expires.toUTCString()}`);
+	if (cookie.domain) parts.push(`Domain=${cookie.domain}`);
+	if (cookie.secure) parts.push("Secure");
+	if (cookie.httpOnly) parts.push("HttpOnly");
+	if (cookie.sameSite) {
+		parts.push(`SameSite=${cookie.sameSite[0].toUpperCase()}${cookie.sameSite.slice(1)}`);
+	}
+	return parts.join("; ");
+}
+
+/**
+ * Response for a `ctx.respond()` result. Data is shaped only when it
+ * is sent, so a 204 needn't match the `response` schema.
+ */
+function endpointResponse(
+	{ data, init }: HandlerResponse,
+	shape: (data: unknown) => unknown,
+): Response {
+	const status = init.status ?? 200;
+	const headers = new Headers(init.headers);
+	for (const cookie of init.cookies ?? []) {
+		headers.append("Set-Cookie", serializeCookie(cookie));
+	}
+	if (NO_BODY_STATUSES.has(status) || data === undefined) {
+		return new Response(null, { status, headers });
+	}
+	if (!headers.has("content-type")) {
+		headers.set("Content-Type", "application/json");
+	}
+	return new Response(JSON.stringify(shape(data)), { status, headers });
+}
+
+// ─── Event Streams ────────────────────────────────────────────
+
+const encoder = new TextEncoder();
+
+function serverSentEvent(data: unknown, event?: string): Uint8Array {
+	const type = event ? `event: ${event}\n` : "";
+	return encoder.encode(`${type}data: ${JSON.stringify(data)}\n\n`);
+}
+
+/**
+ * Send each value of a stream handler as a Server-Sent Event. The first
+ * value is awaited before responding, so errors thrown before it get a
+ * regular error response. Later the status is already sent, so an error
+ * becomes an `error` event that ends the stream.
+ */
+async function eventStreamResponse(
+	events: AsyncIterable<unknown>,
+	shape: (event: unknown) => unknown,
+	onError: (error: unknown) => ErrorBody,
+): Promise<Response> {
+	const iterator = events[Symbol.asyncIterator]();
+	let first: IteratorResult<unknown> | null = await iterator.next();
+
+	const body = new ReadableStream<Uint8Array>({
+		async pull(controller) {
+			try {
+				const { value, done } = first ?? (await iterator.next());
+				first = null;
+				if (done) {
+					controller.close();
+					return;
+				}
+				const data = shape(value);
+				// Nothing enqueued: the stream pulls the next value
+				if (data !== SKIP_EVENT) controller.enqueue(serverSentEvent(data));
+			} catch (error) {
+				controller.enqueue(serverSentEvent(onError(error), "error"));
+				controller.close();
+			}
+		},
+		async cancel() {
+			// Client disconnected: run the generator's finally blocks
+			await iterator.return?.();
+		},
+	});
+
+	return new Response(body, {
+		headers: {
+			"Content-Type": "text/event-stream",
+			"Cache-Control": "no-cache, no-transform",
+			"X-Accel-Buffering": "no",
+		},
+	});
+}
+
+function streamErrorBody(error: unknown, log: RequestLog): ErrorBody {
+	if (error instanceof HttpError) return error.toJSON();
+	if (
+		error instanceof Error &&
+		"status" in error &&
+		typeof (error as { status: unknown }).status === "number"
+	) {
+		const { status } = error as { status: number };
+		return { error: error.message || "An error occurred", code: codeForStatus(status) };
+	}
+	log.logger.error("ERTK Stream Error", { ...log.meta, ...errorMeta(error) });
+	return { error: "An unexpected error occurred", code: "INTERNAL_ERROR" };
+}
+
+// ─── Authorization ────────────────────────────────────────────
+
+/** Strings of a user field holding one string or a list. */
+function stringList(value: unknown): string[] {
+	if (typeof value === "string") return [value];
+	return Array.isArray(value)
+		? value.filter((item): item is string => typeof item === "string")
+		: [];
+}
+
+/**
+ * Check an endpoint's `authorize`: one of its roles and all of its
+ * permissions, or its predicate.
+ */
+async function isAuthorized(
+	rule: AccessRule | ((ctx: any) => boolean | Promise<boolean>),
+	auth: ErtkAuthAdapter,
+	user: DefaultUser,
+	ctx: Record<string, unknown>,
+): Promise<boolean> {
+	if (typeof rule === "function") return Boolean(await rule(ctx));
+
+	if (rule.roles && rule.roles.length > 0) {
+		const roles = auth.getRoles
+			? await auth.getRoles(user)
+			: stringList(user.roles ?? user.role);
+		if (!rule.roles.some((role) => roles.includes(role))) return false;
+	}
+	if (rule.permissions && rule.permissions.length > 0) {
+		const permissions = auth.getPermissions
+			? await auth.getPermissions(user)
+			: stringList(user.permissions);
+		if (!rule.permissions.every((permission) => permissions.includes(permission))) {
+			return false;
+		}
+	}
+	return true;
+}
+
+// ─── Middleware ───────────────────────────────────────────────
+
+/**
+ * Run `middleware` in order around `handler`. Each `next` adds its
+ * values to the shared context and runs the rest of the chain.
+ */
+function runMiddleware(
+	middleware: readonly Middleware<any>[],
+	ctx: MiddlewareContext,
+	handler: () => Promise<Response>,
+): Promise<Response> {
+	let called = -1;
+	const dispatch = async (index: number): Promise<Response> => {
+		if (index <= called) throw new Error("next() called multiple times");
+		called = index;
+		const current = middleware[index];
+		if (!current) return handler();
+		return current(ctx, async (added?: object) => {
+			Object.assign(ctx.context, added);
+			return dispatch(index + 1);
+		});
+	};
+	return dispatch(0);
 }
 
 // ─── Rate Limiting ────────────────────────────────────────────
@@ -181,7 +774,8 @@ async function applyRateLimit(
 		const retryAfter = Math.ceil(
 			(result.resetAt * 1000 - Date.now()) / 1000,
 		);
-		return new Response(JSON.stringify({ error: "Too many requests" }), {
+		const body: ErrorBody = { error: "Too many requests", code: "RATE_LIMITED" };
+		return new Response(JSON.stringify(body), {
 			status: 429,
 			headers: {
 				"Content-Type": "application/json",
@@ -196,6 +790,135 @@ async function applyRateLimit(
 	return null;
 }
 
+// ─── Request Lifecycle ────────────────────────────────────────
+
+/** Where a request's log entries go, and the fields they all carry. */
+interface RequestLog {
+	logger: ErtkLogger;
+	meta: Record<string, unknown>;
+}
+
+/** An incoming `x-request-id` is kept only if it is a plain token. */
+const REQUEST_ID = /^[\w.:-]{1,128}$/;
+
+function requestIdFor(req: Request): string {
+	const incoming = req.headers.get("x-request-id");
+	return incoming && REQUEST_ID.test(incoming)
+		? incoming
+		: globalThis.crypto.randomUUID();
+}
+
+function userIdOf(user: unknown): string | null {
+	const id = (user as { id?: unknown } | null | undefined)?.id;
+	return typeof id === "string" && id ? id : null;
+}
+
+/** Log fields describing a thrown value. */
+function errorMeta(error: unknown): Record<string, unknown> {
+	if (error instanceof ResponseValidationError) {
+		return { message: error.message, issues: error.issues };
+	}
+	if (error instanceof Error) {
+		return { message: error.message, stack: error.stack };
+	}
+	return { error };
+}
+
+/**
+ * Set `x-request-id` on a response. Responses with immutable headers,
+ * e.g. from `Response.redirect()`, are copied.
+ */
+function withRequestId(response: Response, requestId: string): Response {
+	try {
+		response.headers.set("x-request-id", requestId);
+		return response;
+	} catch {
+		const copy = new Response(response.body, response);
+		copy.headers.set("x-request-id", requestId);
+		return copy;
+	}
+}
+
+/** Run a hook; its errors are logged instead of failing the request. */
+async function runHook<TEvent>(
+	hook: ((event: TEvent) => void | Promise<void>) | undefined,
+	event: TEvent,
+	log: RequestLog,
+): Promise<void> {
+	if (!hook) return;
+	try {
+		await hook(event);
+	} catch (error) {
+		log.logger.error("ERTK Hook Error", { ...log.meta, ...errorMeta(error) });
+	}
+}
+
+// ─── Error Responses ──────────────────────────────────────────
+
+/**
+ * Response for an error thrown while handling a request: the first
+ * custom handler's answer, else the built-in handling.
+ */
+function errorToResponse(
+	error: unknown,
+	errorHandlers: ErtkErrorHandler[] | undefined,
+	log: RequestLog,
+): Response {
+	// Run custom error handlers
+	if (errorHandlers) {
+		for (const handler of errorHandlers) {
+			const response = handler(error);
+			if (response instanceof HttpError) {
+				return jsonResponse(response.toJSON(), response.status);
+			}
+			if (response) return response;
+		}
+	}
+
+	// A response mismatch is a server bug, not the client's
+	if (error instanceof ResponseValidationError) {
+		log.logger.error("ERTK Route Error", { ...log.meta, ...errorMeta(error) });
+		return errorResponse("An unexpected error occurred", 500);
+	}
+
+	// Handle validation errors
+	if (error instanceof ValidationError) {
+		if (error.issues) {
+			return jsonResponse(
+				{
+					error: "Validation failed",
+					code: "VALIDATION_FAILED",
+					details: error.issues,
+				} satisfies ErrorBody,
+				400,
+			);
+		}
+		return errorResponse(error.message, 400);
+	}
+
+	// Errors thrown to answer with a status and code
+	if (error instanceof HttpError) {
+		return jsonResponse(error.toJSON(), error.status);
+	}
+
+	// Handle errors with a status property
+	if (
+		error instanceof Error &&
+		"status" in error &&
+		typeof (error as { status: unknown }).status === "number"
+	) {
+		return errorResponse(
+			error.message || "An error occurred",
+			(error as { status: number }).status,
+		);
+	}
+
+	// Generic error
+	log.logger.error("ERTK Route Error", { ...log.meta, ...errorMeta(error) });
+
+	return errorResponse("An unexpected error occurred", 500);
+}
+
 // ─── Route Handler Factory ───────────────────────────────────
 
 /**
@@ -228,25 +951,50 @@ async function applyRateLimit(
  * ```
  */
 export function configureHandler(options: ConfigureHandlerOptions = {}) {
+	const logger = options.logger ?? console;
+
+	/**
+	 * @param route - Route pattern reported to the hooks, e.g.
+	 * `/api/tasks/[id]`. Generated route files pass it.
+	 */
 	return function createRouteHandler(
-		def: EndpointDefinition<any, any>,
+		def: EndpointDefinition<any, any, any, any, any>,
+		route?: string,
 	) {
 		return async (
 			req: Request,
 			ctx?: { params: Promise<Record<string, string>> },
 		): Promise<Response> => {
-			try {
+			const started = performance.now();
+			const meta = {
+				requestId: requestIdFor(req),
+				endpoint: def.name,
+				route: route ?? new URL(req.url).pathname,
+				method: req.method,
+			};
+			const request: RequestEvent = { ...meta, req };
+			const log: RequestLog = { logger, meta };
+			let user: unknown = undefined;
+			const finished = (status: number) => ({
+				...request,
+				userId: userIdOf(user),
+				status,
+				duration: performance.now() - started,
+			});
+
+			await runHook(options.onRequest, request, log);
+
+			const handle = async (): Promise<Response> => {
 				const params = ctx?.params ? await ctx.params : {};
 
 				// Parse and validate request
-				const { body, query } = await parseAndValidateRequest(
-					req,
-					def.request,
-				);
+				const parsed = await parseAndValidateRequest(req, def, params);
+				const page = def.pagination
+					? parsePage(req, def.pagination)
+					: undefined;
 
 				// Resolve user for protected endpoints
-				let user: unknown = undefined;
-				if (def.protected) {
+				if (def.protected || def.authorize) {
 					if (!options.auth) {
 						return errorResponse(
 							"No auth adapter configured for protected endpoint",
@@ -259,6 +1007,26 @@ export function configureHandler(options: ConfigureHandlerOptions = {}) {
 					}
 				}
 
+				// Authorization
+				if (def.authorize) {
+					const allowed = await isAuthorized(
+						def.authorize,
+						options.auth!,
+						user as DefaultUser,
+						{
+							user,
+							params: parsed.params,
+							body: parsed.body,
+							query: parsed.query,
+							headers: parsed.headers,
+							req,
+						},
+					);
+					if (!allowed) {
+						return errorResponse("Forbidden", 403);
+					}
+				}
+
 				// Rate limiting
 				if (options.rateLimit || def.rateLimit) {
 					const rateLimitResponse = await applyRateLimit(
@@ -271,66 +1039,83 @@ export function configureHandler(options: ConfigureHandlerOptions = {}) {
 				}
 
 				// Call the endpoint handler
-				if (!def.handler) {
+				const handler = def.handler;
+				if (!handler) {
 					return errorResponse(
 						"No handler defined for this endpoint",
 						501,
 					);
 				}
 
-				const result = await def.handler({
-					user: (user ?? { id: "" }) as any,
-					body,
-					query,
-					params,
-					req,
-				});
+				const context: MiddlewareContext["context"] = {};
+				const strict = options.strictResponses ?? false;
+				const callHandler = async (): Promise<Response> => {
+					const result = await handler({
+						user: (user ?? { id: "" }) as any,
+						body: parsed.body,
+						query: parsed.query,
+						params: parsed.params,
+						headers: parsed.headers,
+						files: parsed.files,
+						req,
+						respond,
+						context,
+						...(page && { page }),
+					});
 
-				return jsonResponse(result);
-			} catch (error) {
-				// Run custom error handlers
-				if (options.errorHandlers) {
-					for (const handler of options.errorHandlers) {
-						const response = handler(error);
-						if (response) return response;
+					// Awaited so errors before the first event reach the handlers below
+					if (def.stream) {
+						return await eventStreamResponse(
+							result as AsyncIterable<unknown>,
+							(event) => shapeEvent(def, event, strict, log),
+							(error) => {
+								void runHook(options.onError, { ...finished(200), error }, log);
+								return streamErrorBody(error, log);
+							},
+						);
 					}
-				}
-
-				// Handle validation errors
-				if (error instanceof ValidationError) {
-					if (error.issues) {
-						return jsonResponse(
-							{ error: "Validation failed", details: error.issues },
-							400,
+					// Redirects, downloads and other responses built by the handler
+					if (result instanceof Response) return result;
+					if (result instanceof EndpointResponse) {
+						return endpointResponse(result, (data) =>
+							shapeResponse(def, data),
 						);
 					}
-					return errorResponse(error.message, 400);
-				}
-
-				// Handle errors with a status property
-				if (
-					error instanceof Error &&
-					"status" in error &&
-					typeof (error as { status: unknown }).status === "number"
-				) {
-					return errorResponse(
-						error.message || "An error occurred",
-						(error as { status: number }).status,
-					);
-				}
+					return jsonResponse(shapeResponse(def, result));
+				};
 
-				// Generic error
-				if (error instanceof Error) {
-					console.error("ERTK Route Error:", {
-						message: error.message,
-						stack: error.stack,
-					});
-				} else {
-					console.error("ERTK Route Error:", error);
-				}
+				return await runMiddleware(
+					[...(options.middleware ?? []), ...(def.middleware ?? [])],
+					{
+						req,
+						endpoint: { name: def.name, method: def.method },
+						user: (user ?? null) as MiddlewareContext["user"],
+						params: parsed.params as MiddlewareContext["params"],
+						context,
+					},
+					callHandler,
+				);
+			};
 
-				return errorResponse("An unexpected error occurred", 500);
+			let response: Response;
+			try {
+				response = await handle();
+			} catch (error) {
+				response = errorToResponse(error, options.errorHandlers, log);
+				await runHook(
+					options.onError,
+					{ ...finished(response.status), error },
+					log,
+				);
 			}
+
+			response = withRequestId(response, meta.requestId);
+			await runHook(
+				options.onResponse,
+				{ ...finished(response.status), response },
+				log,
+			);
+			return response;
 		};
 	};
 }
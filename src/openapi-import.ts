@@ -0,0 +1,559 @@
+/**
+ * ERTK OpenAPI Import
+ *
+ * Scaffolds client-only endpoint files from an OpenAPI 3.x document:
+ * one file per operation plus a `_types.ts` module for the component
+ * schemas. Every file records a hash of its content when written, so
+ * re-running the import refreshes untouched files and leaves edited
+ * ones alone.
+ */
+
+import * as crypto from "node:crypto";
+import * as fs from "node:fs";
+import * as path from "node:path";
+import { pathToFileURL } from "node:url";
+import type { ResolvedConfig } from "./types.js";
+
+// ─── Types ────────────────────────────────────────────────────
+
+export interface ImportOpenApiOptions {
+	/** Directory under the endpoints dir to write into (default: slug of `info.title`) */
+	dir?: string;
+	/** Base URL prepended to every path (default: the first server URL) */
+	baseUrl?: string;
+	/** Overwrite files even if they were edited since the last import */
+	force?: boolean;
+}
+
+interface SchemaObject {
+	$ref?: string;
+	type?: string | string[];
+	format?: string;
+	enum?: unknown[];
+	const?: unknown;
+	nullable?: boolean;
+	items?: SchemaObject;
+	properties?: Record<string, SchemaObject>;
+	required?: string[];
+	additionalProperties?: boolean | SchemaObject;
+	allOf?: SchemaObject[];
+	oneOf?: SchemaObject[];
+	anyOf?: SchemaObject[];
+	description?: string;
+}
+
+interface ParameterObject {
+	$ref?: string;
+	name: string;
+	in: "path" | "query" | "header" | "cookie";
+	required?: boolean;
+	description?: string;
+	schema?: SchemaObject;
+}
+
+interface MediaTypeObject {
+	schema?: SchemaObject;
+}
+
+interface RequestBodyObject {
+	$ref?: string;
+	required?: boolean;
+	content?: Record<string, MediaTypeObject>;
+}
+
+interface ResponseObject {
+	$ref?: string;
+	content?: Record<string, MediaTypeObject>;
+}
+
+interface OperationObject {
+	operationId?: string;
+	summary?: string;
+	description?: string;
+	tags?: string[];
+	parameters?: ParameterObject[];
+	requestBody?: RequestBodyObject;
+	responses?: Record<string, ResponseObject>;
+	deprecated?: boolean;
+}
+
+type PathItemObject = Partial<Record<HttpMethod, OperationObject>> & {
+	parameters?: ParameterObject[];
+};
+
+interface OpenApiDocument {
+	openapi?: string;
+	info?: { title?: string };
+	servers?: { url: string }[];
+	paths?: Record<string, PathItemObject>;
+	components?: {
+		schemas?: Record<string, SchemaObject>;
+		parameters?: Record<string, ParameterObject>;
+		requestBodies?: Record<string, RequestBodyObject>;
+		responses?: Record<string, ResponseObject>;
+	};
+}
+
+type HttpMethod = "get" | "post" | "put" | "patch" | "delete";
+
+const HTTP_METHODS: HttpMethod[] = ["get", "post", "put", "patch", "delete"];
+
+/** A generated file, before the import hash is stamped into its header. */
+interface ScaffoldFile {
+	/** Path relative to the import directory */
+	fileName: string;
+	content: string;
+}
+
+// ─── Loading ──────────────────────────────────────────────────
+
+/**
+ * Read a JSON or YAML document. YAML goes through the project's own
+ * `yaml` package, since ERTK doesn't ship a YAML parser.
+ */
+async function loadDocument(
+	filePath: string,
+	config: ResolvedConfig,
+): Promise<OpenApiDocument> {
+	const text = fs.readFileSync(filePath, "utf-8");
+	if (!/\.ya?ml$/.test(filePath)) return JSON.parse(text) as OpenApiDocument;
+
+	const { createJiti } = await import("jiti");
+	const jiti = createJiti(pathToFileURL(path.join(config.root, "/")).href);
+	let yaml: { parse: (source: string) => unknown };
+	try {
+		yaml = (await jiti.import("yaml")) as typeof yaml;
+	} catch {
+		throw new Error(
+			`Reading YAML requires the "yaml" package. Install it or convert ${path.basename(filePath)} to JSON.`,
+		);
+	}
+	return yaml.parse(text) as OpenApiDocument;
+}
+
+/** Follow a local `$ref` to a component (parameters, request bodies, responses). */
+function deref<T extends { $ref?: string }>(
+	value: T | undefined,
+	document: OpenApiDocument,
+): T | undefined {
+	let current = value;
+	const seen = new Set<string>();
+	while (current?.$ref && !seen.has(current.$ref)) {
+		seen.add(current.$ref);
+		if (!current.$ref.startsWith("#/")) return undefined;
+		let target: unknown = document;
+		for (const part of current.$ref.slice(2).split("/")) {
+			const key = part.replace(/~1/g, "/").replace(/~0/g, "~");
+			target = (target as Record<string, unknown> | undefined)?.[key];
+		}
+		current = target as T | undefined;
+	}
+	return current;
+}
+
+// ─── Naming ───────────────────────────────────────────────────
+
+const IDENTIFIER = /^[A-Za-z_$][\w$]*$/;
+
+function words(value: string): string[] {
+	return value
+		.replace(/([a-z0-9])([A-Z])/g, "$1 $2")
+		.split(/[^A-Za-z0-9]+/)
+		.filter(Boolean);
+}
+
+function pascalCase(value: string): string {
+	const name = words(value)
+		.map((w) => w[0].toUpperCase() + w.slice(1))
+		.join("");
+	// Not `_`: files starting with it are private and skipped by the codegen
+	return /^[0-9]/.test(name) ? `Op${name}` : name || "Unnamed";
+}
+
+function camelCase(value: string): string {
+	const name = pascalCase(value);
+	return name[0].toLowerCase() + name.slice(1);
+}
+
+function propertyKey(name: string): string {
+	return IDENTIFIER.test(name) ? name : JSON.stringify(name);
+}
+
+function propertyAccess(object: string, name: string): string {
+	return IDENTIFIER.test(name) ? `${object}.${name}` : `${object}[${JSON.stringify(name)}]`;
+}
+
+/** `operationId` if present, otherwise method plus the path, e.g. `getPetsPetId`. */
+function operationName(method: HttpMethod, route: string, op: OperationObject): string {
+	if (op.operationId) return camelCase(op.operationId);
+	return camelCase(`${method} ${route.replace(/[{}]/g, "")}`);
+}
+
+function slugify(value: string): string {
+	return words(value).join("-").toLowerCase() || "openapi";
+}
+
+// ─── Schemas → TypeScript ─────────────────────────────────────
+
+const SCHEMA_REF = "#/components/schemas/";
+
+function typeFromSchema(
+	schema: SchemaObject | boolean | undefined,
+	refs: Set<string>,
+	indent = "",
+): string {
+	if (schema === undefined || schema === true) return "unknown";
+	if (schema === false) return "never";
+
+	if (schema.$ref) {
+		if (!schema.$ref.startsWith(SCHEMA_REF)) return "unknown";
+		const name = pascalCase(schema.$ref.slice(SCHEMA_REF.length));
+		refs.add(name);
+		return schema.nullable ? `${name} | null` : name;
+	}
+
+	let type: string;
+	if (schema.allOf) {
+		type = schema.allOf.map((s) => wrap(typeFromSchema(s, refs, indent))).join(" & ");
+	} else if (schema.oneOf || schema.anyOf) {
+		const members = schema.oneOf ?? schema.anyOf ?? [];
+		type = unique(members.map((s) => typeFromSchema(s, refs, indent))).join(" | ");
+	} else if (schema.const !== undefined) {
+		type = JSON.stringify(schema.const);
+	} else if (schema.enum) {
+		type = unique(schema.enum.map((value) => JSON.stringify(value))).join(" | ");
+	} else if (Array.isArray(schema.type)) {
+		type = unique(
+			schema.type.map((t) => typeFromSchema({ ...schema, type: t }, refs, indent)),
+		).join(" | ");
+	} else {
+		type = typeFromKind(schema, refs, indent);
+	}
+
+	return schema.nullable && type !== "null" ? `${type} | null` : type;
+}
+
+function typeFromKind(
+	schema: SchemaObject,
+	refs: Set<string>,
+	indent: string,
+): string {
+	switch (schema.type) {
+		case "string":
+			return schema.format === "binary" ? "Blob" : "string";
+		case "integer":
+		case "number":
+			return "number";
+		case "boolean":
+			return "boolean";
+		case "null":
+			return "null";
+		case "array":
+			return `${wrap(typeFromSchema(schema.items, refs, indent))}[]`;
+		case "object":
+		case undefined:
+			if (schema.properties || schema.additionalProperties !== undefined) {
+				return objectType(schema, refs, indent);
+			}
+			return schema.type === "object" ? "Record<string, unknown>" : "unknown";
+		default:
+			return "unknown";
+	}
+}
+
+function objectType(
+	schema: SchemaObject,
+	refs: Set<string>,
+	indent: string,
+): string {
+	const properties = Object.entries(schema.properties ?? {});
+	const extra = schema.additionalProperties;
+	if (properties.length === 0) {
+		if (extra === false) return "Record<string, never>";
+		return `Record<string, ${typeFromSchema(extra, refs, indent)}>`;
+	}
+	return `{\n${objectMembers(schema, refs, `${indent}\t`)}${indent}}`;
+}
+
+/** Property lines for an object schema, shared by inline types and interfaces. */
+function objectMembers(
+	schema: SchemaObject,
+	refs: Set<string>,
+	indent: string,
+): string {
+	const required = new Set(schema.required ?? []);
+	let members = "";
+	for (const [name, property] of Object.entries(schema.properties ?? {})) {
+		if (property.description) members += `${indent}/** ${oneLine(property.description)} */\n`;
+		const optional = required.has(name) ? "" : "?";
+		const type = typeFromSchema(property, refs, indent);
+		members += `${indent}${propertyKey(name)}${optional}: ${type};\n`;
+	}
+	// Declared properties must fit the index signature, so widen it to unknown
+	if (schema.additionalProperties !== undefined && schema.additionalProperties !== false) {
+		members += `${indent}[key: string]: unknown;\n`;
+	}
+	return members;
+}
+
+function wrap(type: string): string {
+	return /[ |&]/.test(type) && !type.startsWith("{") ? `(${type})` : type;
+}
+
+function unique(values: string[]): string[] {
+	return [...new Set(values)];
+}
+
+function oneLine(text: string): string {
+	return text.replace(/\s+/g, " ").replace(/\*\//g, "*\\/").trim();
+}
+
+function isPlainObjectSchema(schema: SchemaObject): boolean {
+	return (
+		(schema.type === "object" || schema.type === undefined) &&
+		!!schema.properties &&
+		!schema.allOf && !schema.oneOf && !schema.anyOf &&
+		!schema.nullable && !schema.$ref
+	);
+}
+
+// ─── Code Generation ──────────────────────────────────────────
+
+function generateTypesFile(document: OpenApiDocument): ScaffoldFile | null {
+	const schemas = Object.entries(document.components?.schemas ?? {});
+	if (schemas.length === 0) return null;
+
+	const blocks = schemas.map(([rawName, schema]) => {
+		const name = pascalCase(rawName);
+		const doc = schema.description ? `/** ${oneLine(schema.description)} */\n` : "";
+		const refs = new Set<string>();
+		if (isPlainObjectSchema(schema)) {
+			return `${doc}export interface ${name} {\n${objectMembers(schema, refs, "\t")}}`;
+		}
+		return `${doc}export type ${name} = ${typeFromSchema(schema, refs)};`;
+	});
+
+	return { fileName: "_types.ts", content: `${blocks.join("\n\n")}\n` };
+}
+
+function generateOperationFile(
+	name: string,
+	method: HttpMethod,
+	route: string,
+	op: OperationObject,
+	pathParameters: ParameterObject[],
+	baseUrl: string,
+	document: OpenApiDocument,
+): ScaffoldFile {
+	const typeName = pascalCase(name);
+	const refs = new Set<string>();
+	const declarations: string[] = [];
+
+	// Operation parameters override path-level ones with the same name and location
+	const parameters = new Map<string, ParameterObject>();
+	for (const raw of [...pathParameters, ...(op.parameters ?? [])]) {
+		const param = deref(raw, document);
+		if (param && (param.in === "path" || param.in === "query")) {
+			parameters.set(`${param.in}:${param.name}`, param);
+		}
+	}
+
+	// Args: path and query parameters flattened, the JSON body under `body`
+	let argMembers = "";
+	for (const param of parameters.values()) {
+		if (param.description) argMembers += `\t/** ${oneLine(param.description)} */\n`;
+		const optional = param.in === "path" || param.required ? "" : "?";
+		const type = typeFromSchema(param.schema, refs, "\t");
+		argMembers += `\t${propertyKey(param.name)}${optional}: ${type};\n`;
+	}
+	const requestBody = deref(op.requestBody, document);
+	const bodySchema = jsonContent(requestBody?.content);
+	if (requestBody) {
+		const optional = requestBody.required ? "" : "?";
+		argMembers += `\tbody${optional}: ${typeFromSchema(bodySchema, refs, "\t")};\n`;
+	}
+	const argsType = argMembers ? `${typeName}Args` : null;
+	if (argsType) declarations.push(`export interface ${argsType} {\n${argMembers}}`);
+
+	// Response: the first 2xx with a JSON body
+	let responseType = "void";
+	const success = Object.keys(op.responses ?? {})
+		.filter((status) => /^2(\d\d|XX)$/i.test(status))
+		.sort();
+	for (const status of success) {
+		const response = deref(op.responses?.[status], document);
+		const schema = jsonContent(response?.content);
+		if (!schema) continue;
+		const type = typeFromSchema(schema, refs);
+		if (type.startsWith("{")) {
+			declarations.push(`export interface ${typeName}Response ${type}`);
+			responseType = `${typeName}Response`;
+		} else {
+			responseType = type;
+		}
+		break;
+	}
+
+	// query(): URL template with encoded path params, query params, body
+	const url = `${baseUrl}${route}`.replace(
+		/\{([^}]+)\}/g,
+		(_, param: string) => `\${encodeURIComponent(String(${propertyAccess("args", param)}))}`,
+	);
+	const request: string[] = [
+		url.includes("${") ? `url: \`${url}\`` : `url: ${JSON.stringify(url)}`,
+	];
+	if (method !== "get") request.push(`method: "${method.toUpperCase()}"`);
+	const queryParams = [...parameters.values()].filter((p) => p.in === "query");
+	if (queryParams.length > 0) {
+		const entries = queryParams.map(
+			(p) => `${propertyKey(p.name)}: ${propertyAccess("args", p.name)}`,
+		);
+		request.push(`params: { ${entries.join(", ")} }`);
+	}
+	if (requestBody) request.push("body: args.body");
+	const query = `(${argsType ? "args" : ""}) => ({ ${request.join(", ")} })`;
+
+	// Tags: operation tags provided by queries, invalidated by mutations
+	const tags = unique((op.tags ?? []).map(pascalCase));
+	const tagKey = method === "get" ? "provides" : "invalidates";
+
+	const summary = op.summary ?? op.description;
+	let header = `/**\n * ${method.toUpperCase()} ${route}`;
+	if (summary) header += ` — ${oneLine(summary)}`;
+	if (op.deprecated) header += "\n *\n * @deprecated";
+	header += "\n */";
+
+	let content = `${header}\n\nimport { endpoint } from "ertk";\n`;
+	if (refs.size > 0) {
+		content += `import type { ${[...refs].sort().join(", ")} } from "./_types";\n`;
+	}
+	for (const declaration of declarations) content += `\n${declaration}\n`;
+
+	const generics = argsType ? `${responseType}, ${argsType}` : responseType;
+	content += `\nexport default endpoint.${method}<${generics}>({\n`;
+	content += `\tname: "${name}",\n`;
+	content += "\tprotected: false,\n";
+	content += `\tquery: ${query},\n`;
+	if (tags.length > 0) {
+		content += `\ttags: { ${tagKey}: [${tags.map((t) => JSON.stringify(t)).join(", ")}] },\n`;
+	}
+	content += "});\n";
+
+	return { fileName: `${name}.ts`, content };
+}
+
+function jsonContent(
+	content: Record<string, MediaTypeObject> | undefined,
+): SchemaObject | undefined {
+	if (!content) return undefined;
+	const key = Object.keys(content).find((type) => /^application\/(.+\+)?json/.test(type));
+	return key ? (content[key].schema ?? {}) : undefined;
+}
+
+// ─── Edit Tracking ────────────────────────────────────────────
+
+const IMPORT_MARKER = "// @ertk-import ";
+
+function contentHash(content: string): string {
+	return crypto.createHash("md5").update(content).digest("hex");
+}
+
+/** Prepend the marker line recording the hash of the rest of the file. */
+function stamp(content: string): string {
+	const note = "re-running the import overwrites this file until it's edited";
+	return `${IMPORT_MARKER}${contentHash(content)} — ${note}.\n${content}`;
+}
+
+type FileState = "new" | "unchanged" | "edited" | "foreign";
+
+/** Compare an existing file with the hash it was stamped with. */
+function fileState(filePath: string): FileState {
+	if (!fs.existsSync(filePath)) return "new";
+	const existing = fs.readFileSync(filePath, "utf-8");
+	if (!existing.startsWith(IMPORT_MARKER)) return "foreign";
+	const newline = existing.indexOf("\n");
+	const recorded = existing.slice(IMPORT_MARKER.length, newline).split(" ")[0];
+	return contentHash(existing.slice(newline + 1)) === recorded ? "unchanged" : "edited";
+}
+
+// ─── Entry Point ──────────────────────────────────────────────
+
+/**
+ * Scaffold client-only endpoint files for every operation in an
+ * OpenAPI document. Returns false when the document can't be used.
+ */
+export async function runImportOpenApi(
+	config: ResolvedConfig,
+	file: string,
+	options: ImportOpenApiOptions = {},
+): Promise<boolean> {
+	const sourcePath = path.resolve(config.root, file);
+	if (!fs.existsSync(sourcePath)) {
+		console.error(`ERTK: ${file} doesn't exist.`);
+		return false;
+	}
+
+	const document = await loadDocument(sourcePath, config);
+	if (!document.openapi?.startsWith("3.")) {
+		console.error(`ERTK: ${file} isn't an OpenAPI 3.x document.`);
+		return false;
+	}
+
+	const dirName = options.dir ?? slugify(document.info?.title ?? path.parse(file).name);
+	const outDir = path.resolve(config.endpointsDir, dirName);
+	const baseUrl = (options.baseUrl ?? document.servers?.[0]?.url ?? "").replace(/\/$/, "");
+
+	const files: ScaffoldFile[] = [];
+	const typesFile = generateTypesFile(document);
+	if (typesFile) files.push(typesFile);
+
+	const names = new Set<string>();
+	for (const [route, item] of Object.entries(document.paths ?? {})) {
+		for (const method of HTTP_METHODS) {
+			const op = item[method];
+			if (!op) continue;
+			let name = operationName(method, route, op);
+			for (let n = 2; names.has(name); n++) name = `${operationName(method, route, op)}${n}`;
+			names.add(name);
+			files.push(
+				generateOperationFile(
+					name,
+					method,
+					route,
+					op,
+					item.parameters ?? [],
+					baseUrl,
+					document,
+				),
+			);
+		}
+	}
+
+	let written = 0;
+	let skipped = 0;
+	for (const scaffold of files) {
+		const filePath = path.join(outDir, scaffold.fileName);
+		const relative = path.relative(config.root, filePath).replace(/\\/g, "/");
+		const state = fileState(filePath);
+		if ((state === "edited" || state === "foreign") && !options.force) {
+			const reason =
+				state === "edited" ? "edited since the last import" : "not created by the import";
+			console.warn(
+				`ERTK: Skipped ${relative} — it was ${reason}. Use --force to overwrite it.`,
+			);
+			skipped++;
+			continue;
+		}
+		const content = stamp(scaffold.content);
+		if (state !== "new" && fs.readFileSync(filePath, "utf-8") === content) continue;
+		fs.mkdirSync(outDir, { recursive: true });
+		fs.writeFileSync(filePath, content);
+		written++;
+	}
+
+	const relativeDir = path.relative(config.root, outDir).replace(/\\/g, "/");
+	console.log(
+		`ERTK: Imported ${names.size} operations into ${relativeDir} (${written} written, ${skipped} skipped).`,
+	);
+	return true;
+}
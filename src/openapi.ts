@@ -0,0 +1,702 @@
+/**
+ * ERTK OpenAPI Generation
+ *
+ * Builds an OpenAPI 3.1 document from the endpoint files that have a
+ * server handler. Routes, methods and `protected` come from the same
+ * parse as the codegen; response bodies are converted from `TResponse`
+ * with the type checker and request schemas are converted by Zod
+ * (falling back to the schema's TypeScript output type).
+ */
+
+import * as fs from "node:fs";
+import * as path from "node:path";
+import { pathToFileURL } from "node:url";
+import { Node, type Project, type ts, type Type } from "ts-morph";
+import { resolveDefaultExport } from "./discovery.js";
+import type { Diagnostic } from "./diagnostics.js";
+import { messageForCode } from "./errors.js";
+import {
+	createProject,
+	findConflicts,
+	hasFailures,
+	type ParsedEndpoint,
+	parseAllEndpoints,
+	printDiagnostics,
+} from "./generate.js";
+import type { PaginationStrategy, ResolvedConfig } from "./types.js";
+
+// ─── Types ────────────────────────────────────────────────────
+
+type JsonSchema = Record<string, unknown>;
+
+export interface OpenApiOptions {
+	/** Output path, overriding `openapi.output` from the config */
+	output?: string;
+}
+
+interface SchemaRegistry {
+	/** Component schemas by name */
+	schemas: Record<string, JsonSchema>;
+	/** Component name already assigned to a named type, by compiler type */
+	names: Map<ts.Type, string>;
+}
+
+// ─── Error Shapes ─────────────────────────────────────────────
+
+/**
+ * Bodies `configureHandler` returns for failures. Kept in sync with
+ * `errorResponse` and the validation branch in `route-handler.ts`.
+ */
+const ERROR_SCHEMAS: Record<string, JsonSchema> = {
+	ErrorResponse: {
+		type: "object",
+		properties: {
+			error: { type: "string" },
+			code: { type: "string" },
+			details: {},
+		},
+		required: ["error", "code"],
+	},
+	ValidationErrorResponse: {
+		type: "object",
+		properties: {
+			error: { type: "string" },
+			code: { type: "string", enum: ["VALIDATION_FAILED", "BAD_REQUEST"] },
+			details: {
+				type: "array",
+				items: {
+					type: "object",
+					properties: {
+						path: { type: "string" },
+						message: { type: "string" },
+					},
+					required: ["path", "message"],
+				},
+			},
+		},
+		required: ["error", "code"],
+	},
+};
+
+const RATE_LIMIT_HEADERS = {
+	"Retry-After": {
+		description: "Seconds until the rate limit window resets",
+		schema: { type: "integer" },
+	},
+	"X-RateLimit-Limit": { schema: { type: "integer" } },
+	"X-RateLimit-Remaining": { schema: { type: "integer" } },
+	"X-RateLimit-Reset": {
+		description: "Unix timestamp (seconds) when the window resets",
+		schema: { type: "integer" },
+	},
+};
+
+function errorResponse(description: string, schema: string): JsonSchema {
+	return {
+		description,
+		content: {
+			"application/json": {
+				schema: { $ref: `#/components/schemas/${schema}` },
+			},
+		},
+	};
+}
+
+// ─── Type → JSON Schema ───────────────────────────────────────
+
+/**
+ * Convert a checker type to JSON Schema. Named interfaces, classes and
+ * type aliases become component schemas referenced with `$ref`; values
+ * that don't survive `JSON.stringify` (functions, `undefined`) are
+ * dropped and `Date` becomes a `date-time` string.
+ */
+function schemaFromType(
+	type: Type,
+	node: Node,
+	registry: SchemaRegistry,
+): JsonSchema {
+	if (type.isAny() || type.isUnknown()) return {};
+	if (type.isNever()) return { not: {} };
+	if (type.isNull()) return { type: "null" };
+	if (type.isString() || type.isTemplateLiteral()) return { type: "string" };
+	if (type.isNumber()) return { type: "number" };
+	if (type.isBoolean()) return { type: "boolean" };
+	if (type.isBigInt()) return { type: "integer" };
+	if (type.isStringLiteral() || type.isNumberLiteral()) {
+		return { const: type.getLiteralValue() };
+	}
+	if (type.isBooleanLiteral()) return { const: type.getText() === "true" };
+
+	if (type.isUnion()) return schemaFromUnion(type, node, registry);
+	if (type.isIntersection()) {
+		return {
+			allOf: type
+				.getIntersectionTypes()
+				.map((member) => schemaFromType(member, node, registry)),
+		};
+	}
+
+	if (type.isArray() || type.isReadonlyArray()) {
+		const element = type.getArrayElementType() ?? type.getTypeArguments()[0];
+		return {
+			type: "array",
+			items: element ? schemaFromType(element, node, registry) : {},
+		};
+	}
+	if (type.isTuple()) {
+		const items = type
+			.getTupleElements()
+			.map((element) => schemaFromType(element, node, registry));
+		return { type: "array", prefixItems: items, items: false };
+	}
+
+	if (type.getSymbol()?.getName() === "Date") {
+		return { type: "string", format: "date-time" };
+	}
+
+	if (type.isObject()) return schemaFromObject(type, node, registry);
+
+	return {};
+}
+
+function schemaFromUnion(
+	type: Type,
+	node: Node,
+	registry: SchemaRegistry,
+): JsonSchema {
+	const members = type
+		.getUnionTypes()
+		.filter((member) => !member.isUndefined() && !member.isVoid());
+
+	// `boolean` is `true | false` to the checker
+	const hasTrue = members.some((m) => m.isBooleanLiteral() && m.getText() === "true");
+	const hasFalse = members.some((m) => m.isBooleanLiteral() && m.getText() === "false");
+	const rest = hasTrue && hasFalse
+		? members.filter((m) => !m.isBooleanLiteral())
+		: members;
+	const schemas = rest.map((member) => schemaFromType(member, node, registry));
+	if (hasTrue && hasFalse) schemas.push({ type: "boolean" });
+
+	if (schemas.length === 1) return schemas[0];
+	if (schemas.every((schema) => "const" in schema)) {
+		return { enum: schemas.map((schema) => schema.const) };
+	}
+	return { anyOf: schemas };
+}
+
+function schemaFromObject(
+	type: Type,
+	node: Node,
+	registry: SchemaRegistry,
+): JsonSchema {
+	const name = componentName(type);
+	if (name) {
+		const existing = registry.names.get(type.compilerType);
+		if (existing) return { $ref: `#/components/schemas/${existing}` };
+
+		let unique = name;
+		for (let n = 2; unique in registry.schemas; n++) unique = `${name}_${n}`;
+		registry.names.set(type.compilerType, unique);
+		// Reserve the slot first so recursive types reference it
+		registry.schemas[unique] = {};
+		registry.schemas[unique] = objectSchema(type, node, registry);
+		return { $ref: `#/components/schemas/${unique}` };
+	}
+	return objectSchema(type, node, registry);
+}
+
+/** Component name for named, non-generic object types; null for anonymous ones. */
+function componentName(type: Type): string | null {
+	if (type.getTypeArguments().length > 0) return null;
+	if (type.getAliasTypeArguments().length > 0) return null;
+	const symbol = type.getAliasSymbol() ?? type.getSymbol();
+	// A default-exported declaration's symbol is named "default"
+	const declaration = symbol?.getDeclarations()[0];
+	const name =
+		declaration && Node.hasName(declaration) ? declaration.getName() : undefined;
+	if (!name || name.startsWith("__")) return null;
+	return /^[A-Za-z_$][\w$]*$/.test(name) ? name : null;
+}
+
+function objectSchema(
+	type: Type,
+	node: Node,
+	registry: SchemaRegistry,
+): JsonSchema {
+	const properties: Record<string, JsonSchema> = {};
+	const required: string[] = [];
+
+	for (const property of type.getProperties()) {
+		const propertyType = property.getTypeAtLocation(node);
+		if (propertyType.getCallSignatures().length > 0) continue;
+
+		const optional =
+			property.isOptional() ||
+			(propertyType.isUnion() &&
+				propertyType.getUnionTypes().some((member) => member.isUndefined()));
+		properties[property.getName()] = schemaFromType(
+			propertyType,
+			node,
+			registry,
+		);
+		if (!optional) required.push(property.getName());
+	}
+
+	const schema: JsonSchema = { type: "object", properties };
+	if (required.length > 0) schema.required = required;
+
+	const indexType = type.getStringIndexType();
+	if (indexType) {
+		schema.additionalProperties = schemaFromType(indexType, node, registry);
+	}
+	return schema;
+}
+
+// ─── Request and Response Schemas ─────────────────────────────
+
+type RequestPart = "params" | "query" | "body" | "headers";
+
+/** JSON Schemas converted from an endpoint's Zod `request` and `response`. */
+interface ZodSchemas {
+	request?: JsonSchema;
+	/** Schemas of a `{ params, query, body, headers }` request */
+	requestParts?: Partial<Record<RequestPart, JsonSchema>>;
+	response?: JsonSchema;
+}
+
+const REQUEST_PARTS: RequestPart[] = ["params", "query", "body", "headers"];
+
+/**
+ * Load request and response schemas at runtime and convert the Zod ones
+ * with Zod's own `toJSONSchema` (Zod 4), which keeps constraints like
+ * `min` and formats that the TypeScript type loses. Endpoints whose
+ * module can't be loaded, or whose schemas aren't Zod 4, are left out of
+ * the map.
+ */
+async function loadZodSchemas(
+	endpoints: ParsedEndpoint[],
+	config: ResolvedConfig,
+): Promise<Map<ParsedEndpoint, ZodSchemas>> {
+	const schemas = new Map<ParsedEndpoint, ZodSchemas>();
+	const withSchemas = endpoints.filter((ep) => ep.hasRequest || ep.hasResponse);
+	if (withSchemas.length === 0) return schemas;
+
+	const { createJiti } = await import("jiti");
+	const jiti = createJiti(pathToFileURL(path.join(config.root, "/")).href, {
+		interopDefault: true,
+		alias: { [config.pathAlias]: config.aliasRoot },
+	});
+
+	let toJSONSchema: ((schema: unknown, params?: unknown) => JsonSchema) | null;
+	try {
+		const zod = (await jiti.import("zod")) as { toJSONSchema?: typeof toJSONSchema };
+		toJSONSchema = zod.toJSONSchema ?? null;
+	} catch {
+		toJSONSchema = null;
+	}
+	if (!toJSONSchema) return schemas;
+	const convertZod = toJSONSchema;
+
+	// Requests are documented as sent, responses as the schema outputs them
+	const convert = (schema: unknown, io: "input" | "output") => {
+		if (!schema || typeof schema !== "object" || !("_zod" in schema)) {
+			return undefined;
+		}
+		const { $schema: _, ...converted } = convertZod(schema, {
+			io,
+			unrepresentable: "any",
+		});
+		return converted;
+	};
+
+	for (const ep of withSchemas) {
+		try {
+			const mod = (await jiti.import(
+				path.join(config.endpointsDir, ep.filePath),
+			)) as { default?: { request?: unknown; response?: unknown } };
+			const response = convert(mod.default?.response, "output");
+			if (ep.requestParts) {
+				const parts = mod.default?.request as Record<RequestPart, unknown>;
+				const requestParts: ZodSchemas["requestParts"] = {};
+				for (const part of REQUEST_PARTS) {
+					const converted = convert(parts?.[part], "input");
+					if (converted) requestParts[part] = converted;
+				}
+				schemas.set(ep, { requestParts, response });
+			} else {
+				const request = convert(mod.default?.request, "input");
+				if (request || response) schemas.set(ep, { request, response });
+			}
+		} catch (err) {
+			const reason = err instanceof Error ? err.message : String(err);
+			console.warn(
+				`ERTK: Couldn't load ${ep.filePath} to convert its schemas (${reason}). Using its TypeScript types instead.`,
+			);
+		}
+	}
+
+	return schemas;
+}
+
+/**
+ * The output type of a schema's `parse`, for non-Zod-4 schemas. `part`
+ * picks a schema of a `{ params, query, body, headers }` request.
+ */
+function requestSchemaFromType(
+	requestNode: Node,
+	registry: SchemaRegistry,
+	part?: RequestPart,
+): JsonSchema {
+	const requestType = requestNode.getType();
+	const schemaType = part
+		? requestType.getProperty(part)?.getTypeAtLocation(requestNode).getNonNullableType()
+		: requestType;
+	const parse = schemaType?.getProperty("parse");
+	const signature = parse?.getTypeAtLocation(requestNode).getCallSignatures()[0];
+	if (!signature) return {};
+	return schemaFromType(signature.getReturnType(), requestNode, registry);
+}
+
+// ─── Document ─────────────────────────────────────────────────
+
+function toOpenApiPath(routePath: string): string {
+	return routePath.replace(/\[{1,2}(?:\.\.\.)?([^\]]+)\]{1,2}/g, "{$1}");
+}
+
+function readPackageInfo(root: string): { name?: string; version?: string } {
+	try {
+		return JSON.parse(fs.readFileSync(path.join(root, "package.json"), "utf-8"));
+	} catch {
+		return {};
+	}
+}
+
+function buildDocument(
+	project: Project,
+	endpoints: ParsedEndpoint[],
+	zodSchemas: Map<ParsedEndpoint, ZodSchemas>,
+	config: ResolvedConfig,
+): JsonSchema {
+	// Error shapes go in first, so user types with the same names get a suffix
+	const registry: SchemaRegistry = { schemas: { ...ERROR_SCHEMAS }, names: new Map() };
+	const paths: Record<string, Record<string, JsonSchema>> = {};
+	const pkg = readPackageInfo(config.root);
+
+	for (const ep of endpoints) {
+		const sourceFile = project.getSourceFileOrThrow(
+			path.join(config.endpointsDir, ep.filePath),
+		);
+		const resolved = resolveDefaultExport(sourceFile);
+		if (!resolved) continue;
+		const { exportExpression, properties } = resolved;
+
+		const operation: JsonSchema = {
+			operationId: ep.name,
+			tags: [ep.filePath.split("/")[0].replace(/\.ts$/, "")],
+		};
+
+		// Path params
+		const parameters: JsonSchema[] = ep.routeParams.map((param) => ({
+			name: param.name,
+			in: "path",
+			required: true,
+			schema: { type: "string" },
+			...(param.kind !== "single" && {
+				description: "Catch-all segment: one or more `/`-separated values",
+			}),
+		}));
+
+		// Request: query string for GET/DELETE, JSON or form body otherwise
+		const requestValue = properties.get("request");
+		const hasBody = ep.method !== "get" && ep.method !== "delete";
+		if (requestValue && ep.requestParts) {
+			// Per-part schemas; path params stay documented from the route
+			const requestType = requestValue.node.getType();
+			const partSchema = (part: RequestPart) =>
+				requestType.getProperty(part)
+					? (zodSchemas.get(ep)?.requestParts?.[part] ??
+						requestSchemaFromType(requestValue.node, registry, part))
+					: null;
+			const query = partSchema("query");
+			if (query) parameters.push(...schemaParameters(query, registry, "query"));
+			const headers = partSchema("headers");
+			if (headers) parameters.push(...schemaParameters(headers, registry, "header"));
+			const body = hasBody ? partSchema("body") : null;
+			if (ep.multipart && hasBody) {
+				operation.requestBody = {
+					required: true,
+					content: { "multipart/form-data": { schema: formSchema(body, registry) } },
+				};
+			} else if (body) {
+				operation.requestBody = {
+					required: true,
+					content: { "application/json": { schema: body } },
+				};
+			}
+		} else if (requestValue) {
+			const schema =
+				zodSchemas.get(ep)?.request ??
+				requestSchemaFromType(requestValue.node, registry);
+			if (!hasBody) {
+				parameters.push(...schemaParameters(schema, registry, "query"));
+			} else if (ep.multipart) {
+				operation.requestBody = {
+					required: true,
+					content: { "multipart/form-data": { schema: formSchema(schema, registry) } },
+				};
+			} else {
+				operation.requestBody = {
+					required: true,
+					content: { "application/json": { schema } },
+				};
+			}
+		} else if (ep.multipart) {
+			operation.requestBody = {
+				required: true,
+				content: { "multipart/form-data": { schema: formSchema(null, registry) } },
+			};
+		}
+		if (ep.pagination) {
+			const { strategy, pageSize } = ep.pagination;
+			parameters.push(...pageParameters(strategy, pageSize));
+		}
+		if (parameters.length > 0) operation.parameters = parameters;
+
+		// Responses
+		const responseType = resolved.typeArguments[0];
+		const responses: Record<string, JsonSchema> = {};
+		if (!responseType || responseType.isVoid() || responseType.isUndefined()) {
+			responses["200"] = { description: "Success (empty body)" };
+		} else {
+			const schema =
+				zodSchemas.get(ep)?.response ??
+				schemaFromType(responseType, exportExpression, registry);
+			responses["200"] = ep.stream
+				? {
+						description: "Server-Sent Events, each event's data is a JSON value",
+						content: { "text/event-stream": { schema } },
+					}
+				: {
+						description: "Success",
+						content: { "application/json": { schema } },
+					};
+		}
+		// Page params and uploaded files are checked even without a `request` schema
+		if (requestValue || ep.pagination || ep.multipart) {
+			responses["400"] = errorResponse(
+				"Invalid JSON or request validation failed",
+				"ValidationErrorResponse",
+			);
+		}
+		if (ep.isProtected) {
+			responses["401"] = errorResponse("Not authenticated", "ErrorResponse");
+			operation.security = [{ [config.openapi.securitySchemeName]: [] }];
+		}
+		if (ep.authorize) {
+			responses["403"] = errorResponse("Not allowed", "ErrorResponse");
+		}
+		if (properties.has("rateLimit") || config.openapi.rateLimited) {
+			responses["429"] = {
+				...errorResponse("Too many requests", "ErrorResponse"),
+				headers: RATE_LIMIT_HEADERS,
+			};
+		}
+		// Declared `HttpError`s, by status
+		const declared = new Map<number, string[]>();
+		for (const { status, code } of ep.errors) {
+			declared.set(status, [...(declared.get(status) ?? []), code]);
+		}
+		for (const [status, codes] of declared) {
+			// `TASK_LOCKED`, `NOT_FOUND` → "Task locked or not found"
+			const description = messageForCode(codes.join("_OR_"));
+			responses[String(status)] ??= errorResponse(description, "ErrorResponse");
+		}
+		responses["500"] = errorResponse("Unexpected error", "ErrorResponse");
+		operation.responses = Object.fromEntries(
+			Object.entries(responses).sort(([a], [b]) => a.localeCompare(b)),
+		);
+
+		const openApiPath = toOpenApiPath(ep.routePath);
+		paths[openApiPath] ??= {};
+		paths[openApiPath][ep.method] = operation;
+	}
+
+	const document: JsonSchema = {
+		openapi: "3.1.0",
+		info: {
+			title: config.openapi.title ?? pkg.name ?? "API",
+			version: config.openapi.version ?? pkg.version ?? "1.0.0",
+		},
+	};
+	if (config.openapi.servers.length > 0) {
+		document.servers = config.openapi.servers.map((url) => ({ url }));
+	}
+	document.paths = Object.fromEntries(
+		Object.entries(paths).sort(([a], [b]) => a.localeCompare(b)),
+	);
+	document.components = {
+		schemas: registry.schemas,
+		securitySchemes: {
+			[config.openapi.securitySchemeName]: config.openapi.securityScheme,
+		},
+	};
+	return document;
+}
+
+/** Query or header parameters from an object schema (following a component `$ref`). */
+function schemaParameters(
+	schema: JsonSchema,
+	registry: SchemaRegistry,
+	location: "query" | "header",
+): JsonSchema[] {
+	const ref = typeof schema.$ref === "string" ? schema.$ref : null;
+	const target = ref
+		? registry.schemas[ref.replace("#/components/schemas/", "")]
+		: schema;
+	const properties = (target?.properties ?? {}) as Record<string, JsonSchema>;
+	const required = new Set((target?.required ?? []) as string[]);
+
+	return Object.entries(properties).map(([name, propertySchema]) => ({
+		name,
+		in: location,
+		required: required.has(name),
+		schema: propertySchema,
+		// Objects are sent as `a[b]=`, see `encodeQuery`
+		...(location === "query" &&
+			propertySchema.type === "object" && { style: "deepObject", explode: true }),
+	}));
+}
+
+/**
+ * Schema of a `multipart/form-data` body: the fields of the request schema
+ * (following a component `$ref`), plus files under any other field name.
+ */
+function formSchema(schema: JsonSchema | null, registry: SchemaRegistry): JsonSchema {
+	const ref = typeof schema?.$ref === "string" ? schema.$ref : null;
+	const target = ref
+		? registry.schemas[ref.replace("#/components/schemas/", "")]
+		: schema;
+	const file = { type: "string", format: "binary" };
+	return {
+		type: "object",
+		...(target?.properties !== undefined && { properties: target.properties }),
+		...(target?.required !== undefined && { required: target.required }),
+		additionalProperties: {
+			description: "Uploaded files, by field name",
+			oneOf: [file, { type: "array", items: file }],
+		},
+	};
+}
+
+/** `cursor`/`offset` and `limit` of an `endpoint.infinite()` endpoint. */
+function pageParameters(
+	strategy: PaginationStrategy,
+	pageSize: number,
+): JsonSchema[] {
+	const page =
+		strategy === "cursor"
+			? {
+					name: "cursor",
+					in: "query",
+					required: false,
+					description: "`nextCursor` of the previous page. Omit for the first page.",
+					schema: { type: "string" },
+				}
+			: {
+					name: "offset",
+					in: "query",
+					required: false,
+					description: "Number of items to skip",
+					schema: { type: "integer", minimum: 0, default: 0 },
+				};
+	return [
+		page,
+		{
+			name: "limit",
+			in: "query",
+			required: false,
+			description: "Page size",
+			schema: { type: "integer", minimum: 1, maximum: pageSize, default: pageSize },
+		},
+	];
+}
+
+// ─── YAML ─────────────────────────────────────────────────────
+
+/** Minimal YAML writer for JSON-compatible values. Strings are always quoted. */
+function toYaml(value: unknown, indent = ""): string {
+	if (Array.isArray(value)) {
+		if (value.length === 0) return "[]";
+		return value
+			.map((item) => {
+				const rendered = toYaml(item, `${indent}  `);
+				return isBlock(item)
+					? `\n${indent}- ${rendered.trimStart()}`
+					: `\n${indent}- ${rendered}`;
+			})
+			.join("");
+	}
+	if (value && typeof value === "object") {
+		const entries = Object.entries(value);
+		if (entries.length === 0) return "{}";
+		return entries
+			.map(([key, item]) => {
+				const safeKey = /^[A-Za-z_$][\w$.-]*$/.test(key) ? key : JSON.stringify(key);
+				const rendered = toYaml(item, `${indent}  `);
+				return isBlock(item)
+					? `\n${indent}${safeKey}:${rendered}`
+					: `\n${indent}${safeKey}: ${rendered}`;
+			})
+			.join("");
+	}
+	return JSON.stringify(value ?? null);
+}
+
+function isBlock(value: unknown): boolean {
+	if (Array.isArray(value)) return value.length > 0;
+	return !!value && typeof value === "object" && Object.keys(value).length > 0;
+}
+
+// ─── Public API ───────────────────────────────────────────────
+
+/**
+ * Write an OpenAPI 3.1 document for every handler-backed endpoint.
+ * The format follows the output extension (`.yaml`/`.yml` or JSON).
+ * Returns false when endpoints failed to parse.
+ */
+export async function runOpenApi(
+	config: ResolvedConfig,
+	options: OpenApiOptions = {},
+): Promise<boolean> {
+	const project = createProject(config);
+	const diagnostics: Diagnostic[] = [];
+	const cache = parseAllEndpoints(project, config, diagnostics);
+	diagnostics.push(...findConflicts([...cache.values()], config));
+	printDiagnostics(diagnostics, config);
+
+	if (hasFailures(diagnostics, false)) {
+		console.error("ERTK: OpenAPI generation failed.");
+		return false;
+	}
+
+	const endpoints = [...cache.values()].filter((ep) => ep.hasHandler);
+	const zodSchemas = await loadZodSchemas(endpoints, config);
+	const document = buildDocument(project, endpoints, zodSchemas, config);
+
+	const output = options.output
+		? path.resolve(config.root, options.output)
+		: config.openapi.output;
+	const isYaml = /\.ya?ml$/.test(output);
+	const content = isYaml
+		? `${toYaml(document).trimStart()}\n`
+		: `${JSON.stringify(document, null, 2)}\n`;
+
+	fs.mkdirSync(path.dirname(output), { recursive: true });
+	fs.writeFileSync(output, content);
+
+	const relative = path.relative(config.root, output).replace(/\\/g, "/");
+	console.log(
+		`ERTK: Wrote ${relative} (${endpoints.length} operations).`,
+	);
+	return true;
+}
@@ -0,0 +1,121 @@
+/**
+ * ERTK Query Strings
+ *
+ * The query string format shared by the route handler and the generated
+ * clients. Repeated keys and `a[]=` make arrays and `a[b]=` nests
+ * objects. Every value stays a string: numbers and booleans are left to
+ * the schema (e.g. Zod's `z.coerce.number()` or `z.stringbool()`).
+ */
+
+// ─── Types ────────────────────────────────────────────────────
+
+type Container = Record<string, unknown> | unknown[];
+
+/** Keys that would reach `Object.prototype` through `a[__proto__]=` */
+const UNSAFE_KEYS = new Set(["__proto__", "constructor", "prototype"]);
+
+const INDEX = /^\d+$/;
+
+// ─── Decoding ─────────────────────────────────────────────────
+
+/**
+ * Decode a query string into an object.
+ *
+ * @example
+ * ```typescript
+ * decodeQuery("tag=a&tag=b&ids[]=7&filter[done]=false&id=007");
+ * // { tag: ["a", "b"], ids: ["7"], filter: { done: "false" }, id: "007" }
+ * ```
+ */
+export function decodeQuery(
+	search: string | URLSearchParams,
+): Record<string, unknown> {
+	const params = typeof search === "string" ? new URLSearchParams(search) : search;
+	const result: Record<string, unknown> = {};
+	params.forEach((value, key) => {
+		const path = parseKey(key);
+		if (path.some((segment) => UNSAFE_KEYS.has(segment))) return;
+		assign(result, path, value);
+	});
+	return result;
+}
+
+/** `a[b][]` → `["a", "b", ""]`. Malformed brackets keep the key whole. */
+function parseKey(key: string): string[] {
+	const open = key.indexOf("[");
+	if (open <= 0 || !key.endsWith("]")) return [key];
+	const segments = key.slice(open + 1, -1).split("][");
+	if (segments.some((segment) => /[[\]]/.test(segment))) return [key];
+	return [key.slice(0, open), ...segments];
+}
+
+/**
+ * Set `value` at `path`. An empty segment appends to an array and an
+ * index past the end appends too, so `a[99999]=` can't make a sparse
+ * array. A key seen twice collects its values into an array.
+ */
+function assign(container: Container, path: string[], value: unknown): void {
+	const [segment, ...rest] = path;
+	let key: string | number = segment;
+	if (Array.isArray(container)) {
+		if (segment !== "" && !INDEX.test(segment)) return;
+		key = segment === "" ? container.length : Math.min(Number(segment), container.length);
+	} else if (segment === "") {
+		return;
+	}
+
+	const target = container as Record<string | number, unknown>;
+	// Own keys only: `toString=` must not find `Object.prototype.toString`
+	const current = Object.hasOwn(target, key) ? target[key] : undefined;
+	if (rest.length === 0) {
+		target[key] =
+			current === undefined
+				? value
+				: Array.isArray(current)
+					? [...current, value]
+					: [current, value];
+		return;
+	}
+
+	const wantsArray = rest[0] === "" || INDEX.test(rest[0]);
+	let child = current;
+	if (typeof child !== "object" || child === null) {
+		// `a=1&a[]=2` keeps the first value
+		child = wantsArray ? (child === undefined ? [] : [child]) : {};
+		target[key] = child;
+	}
+	assign(child as Container, rest, value);
+}
+
+// ─── Encoding ─────────────────────────────────────────────────
+
+/**
+ * Encode an object in the format `decodeQuery` reads. Arrays of values
+ * become `a[]=`, arrays of objects `a[0][b]=`, dates ISO strings.
+ * `undefined` and `null` are left out.
+ *
+ * Pass it as `fetchBaseQuery`'s `paramsSerializer` so a custom base
+ * query sends params the way the route handler decodes them.
+ */
+export function encodeQuery(params: Record<string, unknown>): string {
+	const search = new URLSearchParams();
+	const append = (key: string, value: unknown): void => {
+		if (value === undefined || value === null) return;
+		if (value instanceof Date) {
+			search.append(key, value.toISOString());
+		} else if (Array.isArray(value)) {
+			value.forEach((item, index) => {
+				const nested = typeof item === "object" && item !== null && !(item instanceof Date);
+				append(`${key}[${nested ? index : ""}]`, item);
+			});
+		} else if (typeof value === "object") {
+			for (const [name, item] of Object.entries(value)) {
+				append(`${key}[${name}]`, item);
+			}
+		} else {
+			search.append(key, String(value));
+		}
+	};
+	for (const [key, value] of Object.entries(params)) append(key, value);
+	return search.toString();
+}
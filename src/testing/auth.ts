@@ -0,0 +1,52 @@
+/**
+ * ERTK In-Memory Auth
+ *
+ * Auth adapter for tests: resolves whichever user is signed in,
+ * regardless of the request. Works with `configureHandler` directly
+ * or through `createTestClient`.
+ */
+
+import type { ErtkAuthAdapter } from "../next/route-handler.js";
+import type { DefaultUser } from "../types.js";
+
+/**
+ * Auth stub holding a single signed-in user.
+ *
+ * @example
+ * ```typescript
+ * const auth = new InMemoryAuthAdapter();
+ * const createRouteHandler = configureHandler({ auth });
+ *
+ * auth.signIn({ id: "user-1", role: "admin" });
+ * // ...requests are now authenticated as user-1
+ * auth.signOut();
+ * ```
+ */
+export class InMemoryAuthAdapter<TUser extends { id: string } = DefaultUser>
+	implements ErtkAuthAdapter<TUser>
+{
+	private user: TUser | null;
+
+	constructor(user: TUser | null = null) {
+		this.user = user;
+	}
+
+	/** Authenticate every following request as `user`. */
+	signIn(user: TUser): void {
+		this.user = user;
+	}
+
+	/** Make every following request unauthenticated. */
+	signOut(): void {
+		this.user = null;
+	}
+
+	/** The signed-in user, or null. */
+	get currentUser(): TUser | null {
+		return this.user;
+	}
+
+	async getUser(): Promise<TUser | null> {
+		return this.user;
+	}
+}
@@ -0,0 +1,11 @@
+export {
+	createTestClient,
+	type TestClient,
+	type TestErrorBody,
+	type TestRequest,
+	type TestResult,
+} from "./test-client.js";
+
+export { InMemoryAuthAdapter } from "./auth.js";
+
+export { InMemoryRateLimitAdapter } from "../next/rate-limit.js";
@@ -0,0 +1,599 @@
+/**
+ * ERTK Type Import Resolution
+ *
+ * Turns the types referenced by an endpoint (its `TResponse` / `TArgs`
+ * and any type annotations inside copied `query` / optimistic sources)
+ * into templates whose references are resolved symbols rather than text.
+ * Generated files then allocate collision-free local names, emit the
+ * matching `import type` lines and hoist non-exported local declarations.
+ */
+
+import * as path from "node:path";
+import {
+	Node,
+	type Project,
+	type SourceFile,
+	type Symbol as TsSymbol,
+	type Type,
+	TypeFormatFlags,
+} from "ts-morph";
+import { EndpointParseError } from "./diagnostics.js";
+import type { ResolvedConfig } from "./types.js";
+
+// ─── Types ────────────────────────────────────────────────────
+
+export type TypeRef =
+	| { kind: "named"; specifier: string; exportName: string; preferredName: string }
+	| { kind: "default"; specifier: string; preferredName: string }
+	| { kind: "namespace"; specifier: string; preferredName: string }
+	| { kind: "hoisted"; key: string; preferredName: string; declaration: Template };
+
+/**
+ * Source text with placeholders for symbol references. Placeholders are
+ * replaced with local names when the template is rendered into a file.
+ */
+export interface Template {
+	text: string;
+	refs: TypeRef[];
+}
+
+export interface TypeResolutionContext {
+	project: Project;
+	config: ResolvedConfig;
+	/** Hoisted declarations already visited, keyed by file and name */
+	hoisted: Map<string, TypeRef>;
+}
+
+const PLACEHOLDER = /\u0000(\d+)\u0000/g;
+
+const placeholder = (index: number) => `\u0000${index}\u0000`;
+
+export function plainTemplate(text: string): Template {
+	return { text, refs: [] };
+}
+
+/** Concatenate text and templates, re-indexing placeholders. */
+export function joinTemplates(parts: Array<string | Template>): Template {
+	const refs: TypeRef[] = [];
+	let text = "";
+	for (const part of parts) {
+		if (typeof part === "string") {
+			text += part;
+			continue;
+		}
+		const offset = refs.length;
+		refs.push(...part.refs);
+		text += part.text.replace(PLACEHOLDER, (_, i) =>
+			placeholder(Number(i) + offset),
+		);
+	}
+	return { text, refs };
+}
+
+// ─── Module Specifiers ────────────────────────────────────────
+
+const TS_EXTENSIONS = /(\.d)?\.(ts|tsx|mts|cts)$/;
+
+/**
+ * Module specifier the generated files should use to import `filePath`:
+ * the package name for node_modules, the path alias inside `aliasRoot`,
+ * otherwise a path relative to the generated directory.
+ */
+export function moduleSpecifierFor(
+	filePath: string,
+	config: ResolvedConfig,
+): string {
+	const normalized = filePath.replace(/\\/g, "/");
+	const nodeModulesIndex = normalized.lastIndexOf("/node_modules/");
+	if (nodeModulesIndex !== -1) {
+		const parts = normalized
+			.slice(nodeModulesIndex + "/node_modules/".length)
+			.split("/");
+		const name = parts[0].startsWith("@") ? `${parts[0]}/${parts[1]}` : parts[0];
+		if (name.startsWith("@types/")) {
+			const bare = name.slice("@types/".length);
+			return bare.includes("__") ? `@${bare.replace("__", "/")}` : bare;
+		}
+		return name;
+	}
+
+	const withoutExt = normalized.replace(TS_EXTENSIONS, "").replace(/\/index$/, "");
+	const aliasRoot = config.aliasRoot.replace(/\\/g, "/");
+	if (withoutExt.startsWith(aliasRoot + "/")) {
+		return `${config.pathAlias}/${withoutExt.slice(aliasRoot.length + 1)}`;
+	}
+
+	const relative = path
+		.relative(config.generatedDir, withoutExt)
+		.replace(/\\/g, "/");
+	return relative.startsWith(".") ? relative : `./${relative}`;
+}
+
+function specifierForImport(
+	moduleSpecifier: string,
+	resolvedFile: SourceFile | undefined,
+	config: ResolvedConfig,
+): string {
+	if (!moduleSpecifier.startsWith(".") || !resolvedFile) {
+		return moduleSpecifier;
+	}
+	return moduleSpecifierFor(resolvedFile.getFilePath(), config);
+}
+
+// ─── Node-Based Resolution ────────────────────────────────────
+
+interface Replacement {
+	start: number;
+	end: number;
+	text: string;
+}
+
+/**
+ * Build a template from written source. Every type reference, `typeof`
+ * query and heritage clause is resolved to an import, a hoisted local
+ * declaration or left alone when it names a global or type parameter.
+ * Throws EndpointParseError when a reference can't be expressed outside
+ * its file (e.g. `typeof` a non-exported const).
+ */
+export function templateFromNode(
+	node: Node,
+	ctx: TypeResolutionContext,
+	selfRef?: { nameNode: Node; ref: TypeRef },
+	start = node.getStart(),
+): Template {
+	const refs: TypeRef[] = [];
+	const replacements: Replacement[] = [];
+
+	const addRef = (target: Node, ref: TypeRef) => {
+		refs.push(ref);
+		replacements.push({
+			start: target.getStart(),
+			end: target.getEnd(),
+			text: placeholder(refs.length - 1),
+		});
+	};
+
+	if (selfRef) addRef(selfRef.nameNode, selfRef.ref);
+
+	const visit = (child: Node) => {
+		let root: Node | undefined;
+		if (Node.isTypeReference(child)) {
+			root = leftmostIdentifier(child.getTypeName());
+		} else if (Node.isTypeQuery(child)) {
+			root = leftmostIdentifier(child.getExprName());
+		} else if (Node.isExpressionWithTypeArguments(child)) {
+			root = leftmostIdentifier(child.getExpression());
+		} else if (Node.isImportTypeNode(child)) {
+			const literal = child.getArgument().getFirstDescendant(Node.isStringLiteral);
+			const target = child.getSourceFile();
+			if (literal?.getLiteralValue().startsWith(".")) {
+				const resolved = path.resolve(
+					path.dirname(target.getFilePath()),
+					literal.getLiteralValue(),
+				);
+				replacements.push({
+					start: literal.getStart(),
+					end: literal.getEnd(),
+					text: JSON.stringify(moduleSpecifierFor(resolved, ctx.config)),
+				});
+			}
+			return;
+		}
+
+		if (!root || !Node.isIdentifier(root)) return;
+		const ref = resolveIdentifierRef(root, ctx);
+		if (ref) addRef(root, ref);
+	};
+	visit(node);
+	node.forEachDescendant(visit);
+
+	replacements.sort((a, b) => a.start - b.start);
+	const source = node.getSourceFile().getFullText();
+	let text = "";
+	let cursor = start;
+	for (const r of replacements) {
+		if (r.start < cursor) continue;
+		text += source.slice(cursor, r.start) + r.text;
+		cursor = r.end;
+	}
+	text += source.slice(cursor, node.getEnd());
+
+	return { text, refs };
+}
+
+function leftmostIdentifier(node: Node): Node {
+	let current = node;
+	for (;;) {
+		if (Node.isQualifiedName(current)) current = current.getLeft();
+		else if (Node.isPropertyAccessExpression(current)) current = current.getExpression();
+		else return current;
+	}
+}
+
+function resolveIdentifierRef(
+	id: Node,
+	ctx: TypeResolutionContext,
+): TypeRef | null {
+	const symbol = id.getSymbol();
+	if (!symbol) return null;
+
+	const decl = symbol.getDeclarations()[0];
+	if (!decl) return null;
+
+	if (Node.isImportSpecifier(decl)) {
+		const importDecl = decl.getImportDeclaration();
+		return {
+			kind: "named",
+			specifier: specifierForImport(
+				importDecl.getModuleSpecifierValue(),
+				importDecl.getModuleSpecifierSourceFile(),
+				ctx.config,
+			),
+			exportName: decl.getName(),
+			preferredName: decl.getName(),
+		};
+	}
+
+	if (Node.isImportClause(decl) || Node.isNamespaceImport(decl)) {
+		const importDecl = Node.isImportClause(decl)
+			? decl.getParentOrThrow()
+			: decl.getParentOrThrow().getParentOrThrow();
+		if (!Node.isImportDeclaration(importDecl)) return null;
+		return {
+			kind: Node.isImportClause(decl) ? "default" : "namespace",
+			specifier: specifierForImport(
+				importDecl.getModuleSpecifierValue(),
+				importDecl.getModuleSpecifierSourceFile(),
+				ctx.config,
+			),
+			preferredName: id.getText(),
+		};
+	}
+
+	if (Node.isTypeParameterDeclaration(decl)) return null;
+
+	// Declared in another file without an import → ambient / global
+	if (decl.getSourceFile() !== id.getSourceFile()) return null;
+	if (!isModuleFile(decl.getSourceFile())) return null;
+
+	return refForModuleDeclaration(decl, symbol, id, ctx);
+}
+
+/**
+ * Reference a declaration that lives at the top level of a module file:
+ * import it if exported, otherwise hoist it into the generated file.
+ */
+function refForModuleDeclaration(
+	decl: Node,
+	symbol: TsSymbol,
+	at: Node,
+	ctx: TypeResolutionContext,
+): TypeRef {
+	const sourceFile = decl.getSourceFile();
+	const specifier = moduleSpecifierFor(sourceFile.getFilePath(), ctx.config);
+	const name = symbol.getName();
+
+	for (const exported of sourceFile.getExportSymbols()) {
+		const target = exported.isAlias()
+			? (exported.getAliasedSymbol() ?? exported)
+			: exported;
+		if (target !== symbol) continue;
+		if (exported.getName() === "default") {
+			return { kind: "default", specifier, preferredName: name };
+		}
+		return {
+			kind: "named",
+			specifier,
+			exportName: exported.getName(),
+			preferredName: exported.getName(),
+		};
+	}
+
+	return hoistDeclaration(decl, name, at, ctx);
+}
+
+function hoistDeclaration(
+	decl: Node,
+	name: string,
+	at: Node,
+	ctx: TypeResolutionContext,
+): TypeRef {
+	const key = `${decl.getSourceFile().getFilePath()}#${name}`;
+	const cached = ctx.hoisted.get(key);
+	if (cached) return cached;
+
+	if (
+		!Node.isInterfaceDeclaration(decl) &&
+		!Node.isTypeAliasDeclaration(decl) &&
+		!Node.isEnumDeclaration(decl)
+	) {
+		throw new EndpointParseError(
+			`\`${name}\` is not exported, so the generated code can't reference it. Export it from ${path.basename(decl.getSourceFile().getFilePath())}`,
+			at,
+			"unresolvable-type",
+		);
+	}
+
+	const ref: TypeRef & { kind: "hoisted" } = {
+		kind: "hoisted",
+		key,
+		preferredName: name,
+		declaration: plainTemplate(""),
+	};
+	ctx.hoisted.set(key, ref);
+
+	// Drop `export` / `default` / `declare`; enums become ambient so the
+	// generated file stays type-only.
+	const modifiers = decl.getModifiers();
+	const start = modifiers.length > 0
+		? modifiers[modifiers.length - 1].getEnd()
+		: decl.getStart();
+	const body = templateFromNode(decl, ctx, { nameNode: decl.getNameNode(), ref }, start);
+	body.text = body.text.trimStart();
+	ref.declaration = Node.isEnumDeclaration(decl)
+		? joinTemplates(["declare ", body])
+		: body;
+
+	return ref;
+}
+
+function isModuleFile(sourceFile: SourceFile): boolean {
+	return !!(sourceFile.compilerNode as { externalModuleIndicator?: unknown })
+		.externalModuleIndicator;
+}
+
+// ─── Checker-Based Resolution ─────────────────────────────────
+
+const CHECKER_FLAGS =
+	TypeFormatFlags.UseFullyQualifiedType | TypeFormatFlags.NoTruncation;
+
+const IMPORT_TYPE = /^import\("([^"]+)"\)\.([A-Za-z_$][\w$]*)/;
+
+/**
+ * Build a template from a checker type (used when the type wasn't written
+ * in the endpoint file, e.g. inside a wrapper factory). The printed type
+ * names exported symbols as `import("/abs/path").Name`; non-exported
+ * module declarations print as bare names and are hoisted.
+ */
+export function templateFromType(
+	type: Type,
+	enclosing: Node,
+	ctx: TypeResolutionContext,
+): Template {
+	const text = type.getText(undefined, CHECKER_FLAGS);
+	const named = new Map<string, TsSymbol>();
+	collectNamedSymbols(type, enclosing, named, new Set());
+
+	const parts: Array<string | Template> = [];
+	let i = 0;
+	let plain = "";
+
+	while (i < text.length) {
+		const ch = text[i];
+
+		// String literal types are copied verbatim
+		if (ch === '"' || ch === "'") {
+			let j = i + 1;
+			while (j < text.length && text[j] !== ch) j += text[j] === "\\" ? 2 : 1;
+			plain += text.slice(i, j + 1);
+			i = j + 1;
+			continue;
+		}
+
+		const importMatch = text.slice(i).match(IMPORT_TYPE);
+		if (importMatch) {
+			parts.push(plain);
+			plain = "";
+			parts.push(refTemplate(importTypeRef(importMatch[1], importMatch[2], named, enclosing, ctx)));
+			i += importMatch[0].length;
+			continue;
+		}
+
+		const identMatch = /^[A-Za-z_$][\w$]*/.exec(text.slice(i));
+		if (identMatch) {
+			const word = identMatch[0];
+			const prev = text.slice(0, i).trimEnd().slice(-1);
+			const next = text.slice(i + word.length).trimStart();
+			const isMember = prev === ".";
+			const isKey = next.startsWith(":") || next.startsWith("?:");
+			const symbol = named.get(word);
+			const decl = symbol?.getDeclarations()[0];
+			if (
+				!isMember &&
+				!isKey &&
+				symbol &&
+				decl &&
+				!Node.isTypeParameterDeclaration(decl) &&
+				isModuleFile(decl.getSourceFile())
+			) {
+				parts.push(plain);
+				plain = "";
+				parts.push(refTemplate(refForModuleDeclaration(decl, symbol, enclosing, ctx)));
+			} else {
+				plain += word;
+			}
+			i += word.length;
+			continue;
+		}
+
+		plain += ch;
+		i++;
+	}
+
+	parts.push(plain);
+	return joinTemplates(parts);
+}
+
+function refTemplate(ref: TypeRef): Template {
+	return { text: placeholder(0), refs: [ref] };
+}
+
+function importTypeRef(
+	modulePath: string,
+	exportName: string,
+	named: Map<string, TsSymbol>,
+	enclosing: Node,
+	ctx: TypeResolutionContext,
+): TypeRef {
+	const specifier = moduleSpecifierFor(modulePath, ctx.config);
+	if (exportName !== "default") {
+		return { kind: "named", specifier, exportName, preferredName: exportName };
+	}
+
+	// Default exports print as `.default`; find the declaration to name it
+	for (const [name, symbol] of named) {
+		const file = symbol.getDeclarations()[0]?.getSourceFile().getFilePath();
+		if (file && file.replace(TS_EXTENSIONS, "") === modulePath) {
+			return { kind: "default", specifier, preferredName: name };
+		}
+	}
+	const base = path.basename(modulePath).replace(/[^\w$]/g, "");
+	return {
+		kind: "default",
+		specifier,
+		preferredName: base.charAt(0).toUpperCase() + base.slice(1),
+	};
+}
+
+/** Walk a type collecting the named symbols its printed form may mention. */
+function collectNamedSymbols(
+	type: Type,
+	enclosing: Node,
+	out: Map<string, TsSymbol>,
+	seen: Set<Type>,
+): void {
+	if (seen.has(type)) return;
+	seen.add(type);
+
+	const alias = type.getAliasSymbol();
+	if (alias) {
+		out.set(alias.getName(), alias);
+		for (const arg of type.getAliasTypeArguments()) {
+			collectNamedSymbols(arg, enclosing, out, seen);
+		}
+		return;
+	}
+
+	const members = type.isUnion()
+		? type.getUnionTypes()
+		: type.isIntersection()
+			? type.getIntersectionTypes()
+			: null;
+	if (members) {
+		for (const member of members) collectNamedSymbols(member, enclosing, out, seen);
+		return;
+	}
+
+	const symbol = type.getSymbol();
+	if (symbol && (type.isInterface() || type.isClass() || type.isEnum() || type.isEnumLiteral())) {
+		out.set(symbol.getName(), symbol);
+	}
+
+	for (const arg of type.getTypeArguments()) {
+		collectNamedSymbols(arg, enclosing, out, seen);
+	}
+
+	if (type.isAnonymous()) {
+		for (const prop of type.getProperties()) {
+			collectNamedSymbols(prop.getTypeAtLocation(enclosing), enclosing, out, seen);
+		}
+		for (const sig of type.getCallSignatures()) {
+			collectNamedSymbols(sig.getReturnType(), enclosing, out, seen);
+			for (const param of sig.getParameters()) {
+				collectNamedSymbols(param.getTypeAtLocation(enclosing), enclosing, out, seen);
+			}
+		}
+	}
+}
+
+// ─── Rendering ────────────────────────────────────────────────
+
+/**
+ * Allocates local names for one generated file. Render templates through
+ * it, then emit `importLines()` and `hoistedDeclarations()` at the top.
+ */
+export interface TypeNamer {
+	render(template: Template): string;
+	importLines(): string[];
+	hoistedDeclarations(): string[];
+}
+
+export function createTypeNamer(reserved: Iterable<string> = []): TypeNamer {
+	const taken = new Set(reserved);
+	const names = new Map<string, string>();
+	const named = new Map<string, Map<string, string>>();
+	const defaults = new Map<string, string>();
+	const namespaces = new Map<string, string>();
+	const hoisted: string[] = [];
+
+	const allocate = (preferred: string) => {
+		let name = preferred;
+		for (let n = 2; taken.has(name); n++) name = `${preferred}_${n}`;
+		taken.add(name);
+		return name;
+	};
+
+	const nameFor = (ref: TypeRef): string => {
+		const key =
+			ref.kind === "named"
+				? `${ref.specifier}#${ref.exportName}`
+				: ref.kind === "default"
+					? `${ref.specifier}#default`
+					: ref.kind === "namespace"
+						? `${ref.specifier}#*`
+						: `hoisted:${ref.key}`;
+		const existing = names.get(key);
+		if (existing) return existing;
+
+		const local = allocate(ref.preferredName);
+		names.set(key, local);
+
+		switch (ref.kind) {
+			case "named":
+				if (!named.has(ref.specifier)) named.set(ref.specifier, new Map());
+				named.get(ref.specifier)!.set(local, ref.exportName);
+				break;
+			case "default":
+				defaults.set(local, ref.specifier);
+				break;
+			case "namespace":
+				namespaces.set(local, ref.specifier);
+				break;
+			case "hoisted":
+				hoisted.push(render(ref.declaration));
+				break;
+		}
+		return local;
+	};
+
+	const render = (template: Template): string =>
+		template.text.replace(PLACEHOLDER, (_, i) => nameFor(template.refs[Number(i)]));
+
+	return {
+		render,
+		importLines() {
+			const lines: Array<[string, string]> = [];
+			for (const [specifier, members] of named) {
+				const list = [...members.entries()]
+					.map(([local, exported]) =>
+						local === exported ? local : `${exported} as ${local}`,
+					)
+					.sort()
+					.join(", ");
+				lines.push([specifier, `import type { ${list} } from "${specifier}";`]);
+			}
+			for (const [local, specifier] of defaults) {
+				lines.push([specifier, `import type ${local} from "${specifier}";`]);
+			}
+			for (const [local, specifier] of namespaces) {
+				lines.push([specifier, `import type * as ${local} from "${specifier}";`]);
+			}
+			return lines
+				.sort((a, b) => a[0].localeCompare(b[0]) || a[1].localeCompare(b[1]))
+				.map(([, line]) => line);
+		},
+		hoistedDeclarations() {
+			return [...hoisted];
+		},
+	};
+}
@@ -5,6 +5,8 @@
  * framework-agnostic at the type level.
  */
 
+import type { HttpErrorClass } from "./errors.js";
+
 // ─── Tag Types ────────────────────────────────────────────────
 
 export type TagType = string;
@@ -46,14 +48,200 @@ export interface HandlerContext<
 	TBody = unknown,
 	TQuery = unknown,
 	TUser = DefaultUser,
+	TParams = Record<string, string>,
+	THeaders = Record<string, string>,
+	TContext = GlobalContext,
 > {
 	user: TUser;
 	body: TBody;
 	query: TQuery;
-	params: Record<string, string>;
+	params: TParams;
+	/** Request headers by lowercase name, as parsed by `request.headers` if set */
+	headers: THeaders;
+	/** Uploaded files of a `multipart` endpoint by field name, empty otherwise */
+	files: Record<string, File[]>;
 	req: Request;
+	/**
+	 * Send `data` with a status, headers or cookies. Return the result
+	 * from the handler; it is still checked by the `response` schema.
+	 */
+	respond: <T>(data: T, init?: RespondInit) => HandlerResponse<T>;
+	/** Values added by global and endpoint middleware */
+	context: TContext;
+}
+
+// ─── Middleware ───────────────────────────────────────────────
+
+/**
+ * Context added by the global `middleware` of `configureHandler()`.
+ * Augment it to type `ctx.context` in every handler:
+ *
+ * @example
+ * ```typescript
+ * declare module "ertk" {
+ *   interface GlobalContext {
+ *     locale: string;
+ *   }
+ * }
+ * ```
+ */
+export interface GlobalContext {}
+
+/** What a middleware sees of the request, after auth and rate limiting. */
+export interface MiddlewareContext {
+	req: Request;
+	endpoint: { name: string; method: EndpointDefinition["method"] };
+	/** Authenticated user, or null on an unprotected endpoint */
+	user: DefaultUser | null;
+	/** Route params, as validated by `request` */
+	params: Record<string, unknown>;
+	/** Context added by the middleware before this one */
+	context: GlobalContext & Record<string, unknown>;
+}
+
+/**
+ * Code run around an endpoint's handler. Call `next` to run the rest of
+ * the chain and get its `Response`; pass it values to add to
+ * `ctx.context`. Return a `Response` without calling `next` to answer
+ * early. Errors from the handler are thrown by `next`.
+ *
+ * @example
+ * ```typescript
+ * const withTransaction: Middleware<{ tx: Prisma.TransactionClient }> = (ctx, next) =>
+ *   db.$transaction((tx) => next({ tx }));
+ * ```
+ */
+export type Middleware<TAdded extends object = {}> = (
+	ctx: MiddlewareContext,
+	next: {} extends TAdded
+		? (added?: TAdded) => Promise<Response>
+		: (added: TAdded) => Promise<Response>,
+) => Promise<Response>;
+
+/** What a middleware passes to `next`. */
+type MiddlewareAdded<TMiddleware> = TMiddleware extends (
+	ctx: MiddlewareContext,
+	next: (added: infer TAdded) => Promise<Response>,
+) => Promise<Response>
+	? NonNullable<TAdded>
+	: {};
+
+/**
+ * `ctx.context` of an endpoint's handler: the global context and what
+ * each of its `middleware` adds. An untyped middleware list (as with
+ * explicit type arguments) leaves the added values `any`.
+ */
+export type EndpointContext<TMiddleware> = unknown extends TMiddleware
+	? any
+	: TMiddleware extends readonly [infer THead, ...infer TRest]
+		? MiddlewareAdded<THead> & EndpointContext<TRest>
+		: TMiddleware extends readonly []
+			? GlobalContext
+			: GlobalContext & Record<string, any>;
+
+// ─── Responses ────────────────────────────────────────────────
+
+export interface CookieOptions {
+	/** Lifetime in seconds; 0 deletes the cookie */
+	maxAge?: number;
+	expires?: Date;
+	/** Default: "/" */
+	path?: string;
+	domain?: string;
+	secure?: boolean;
+	httpOnly?: boolean;
+	sameSite?: "strict" | "lax" | "none";
+}
+
+/** A cookie set by a handler's response. */
+export interface ResponseCookie extends CookieOptions {
+	name: string;
+	value: string;
+}
+
+export interface RespondInit {
+	/** Default: 200. 204 and 304 are sent without a body */
+	status?: number;
+	headers?: HeadersInit;
+	cookies?: ResponseCookie[];
+}
+
+/** Result of `ctx.respond()`: data to send as JSON with its status, headers and cookies. */
+export interface HandlerResponse<T = unknown> {
+	readonly data: T;
+	readonly init: RespondInit;
+}
+
+// ─── Pagination ───────────────────────────────────────────────
+
+/** Page requested from a cursor-paginated endpoint. */
+export interface CursorPage {
+	/** The previous page's `nextCursor`, null for the first page */
+	cursor: string | null;
+	limit: number;
+}
+
+/** Page requested from an offset-paginated endpoint. */
+export interface OffsetPage {
+	/** Number of items before this page */
+	offset: number;
+	limit: number;
+}
+
+export type PaginationStrategy = "cursor" | "offset";
+
+// ─── Multipart ────────────────────────────────────────────────
+
+/** Limits for the files of a `multipart/form-data` request body. */
+export interface MultipartConfig {
+	/** Largest accepted file, in bytes. Default: 10 MB */
+	maxFileSize?: number;
+
+	/** Most files accepted in one request. Default: 10 */
+	maxFiles?: number;
+
+	/**
+	 * Accepted MIME types. `image/*` matches any image type.
+	 * Default: any type
+	 */
+	accept?: string[];
 }
 
+// ─── Route Params ─────────────────────────────────────────────
+
+type SegmentParams<TSegment extends string> =
+	TSegment extends `[[...${infer Name}]]`
+		? { [K in Name]?: string[] }
+		: TSegment extends `[...${infer Name}]`
+			? { [K in Name]: string[] }
+			: TSegment extends `[${infer Name}]`
+				? { [K in Name]: string }
+				: {};
+
+type PathParams<TPath extends string> =
+	TPath extends `${infer Head}/${infer Rest}`
+		? SegmentParams<Head> & PathParams<Rest>
+		: SegmentParams<TPath>;
+
+/**
+ * Params object for a route path with dynamic segments.
+ * `[id]` becomes a string, `[...slug]` a string array and
+ * `[[...slug]]` an optional string array.
+ *
+ * @example
+ * ```typescript
+ * type P = RouteParams<"/api/tasks/[id]/files/[...path]">;
+ * // { id: string; path: string[] }
+ * ```
+ */
+export type RouteParams<TRoute extends string> =
+	// `any` (as in `EndpointDefinition<any, any, any>`) accepts every route
+	unknown extends TRoute
+		? any
+		: string extends TRoute
+			? Record<string, string>
+			: { [K in keyof PathParams<TRoute>]: PathParams<TRoute>[K] };
+
 // ─── Validation ───────────────────────────────────────────────
 
 /**
@@ -64,17 +252,125 @@ export interface ValidationSchema<T = unknown> {
 	parse: (data: unknown) => T;
 }
 
+/**
+ * Schemas for each part of a request, validated independently. Issue
+ * paths are prefixed with the part, e.g. `query.page`.
+ */
+export interface RequestSchemas {
+	/** Dynamic route segments. Default: `ctx.params` as routed */
+	params?: ValidationSchema;
+
+	/** Query string, on any method. Default: `ctx.query` is undefined */
+	query?: ValidationSchema;
+
+	/** Body of POST, PUT and PATCH requests. Default: `ctx.body` is undefined */
+	body?: ValidationSchema;
+
+	/** Headers, by lowercase name. Default: `ctx.headers` holds them all */
+	headers?: ValidationSchema;
+}
+
+/**
+ * An endpoint's `request`: a single schema applied to the query string
+ * (GET, DELETE) or the body, or a schema per request part.
+ */
+export type RequestSchema = ValidationSchema | RequestSchemas;
+
+/**
+ * Type of a handler context field for an endpoint's `request`. A single
+ * schema, or a `request` that isn't known (as in the default type
+ * argument), leaves it `TUntyped`; a part without a schema is `TMissing`.
+ */
+type RequestPart<
+	TRequest,
+	K extends keyof RequestSchemas,
+	TUntyped,
+	TMissing,
+> = unknown extends TRequest
+	? any
+	: RequestSchemas extends TRequest
+		? TUntyped
+		: TRequest extends ValidationSchema
+			? TUntyped
+			: K extends keyof TRequest
+				? NonNullable<TRequest[K]> extends ValidationSchema<infer T>
+					? T
+					: TMissing
+				: TMissing;
+
+/** Handler context of an endpoint, typed by its route, `request` and `middleware`. */
+export type RequestContext<
+	TRoute extends string,
+	TRequest,
+	TMiddleware = readonly Middleware[],
+> = HandlerContext<
+	RequestPart<TRequest, "body", any, undefined>,
+	RequestPart<TRequest, "query", any, undefined>,
+	DefaultUser,
+	RequestPart<TRequest, "params", RouteParams<TRoute>, RouteParams<TRoute>>,
+	RequestPart<TRequest, "headers", Record<string, string>, Record<string, string>>,
+	EndpointContext<TMiddleware>
+>;
+
+// ─── Authorization ────────────────────────────────────────────
+
+/**
+ * Roles and permissions required to call an endpoint. The user needs
+ * one of the `roles` and all of the `permissions`.
+ */
+export interface AccessRule {
+	roles?: string[];
+	permissions?: string[];
+}
+
+/** Custom check of `authorize`, e.g. for ownership. Runs on the server only. */
+export type AuthorizePredicate<
+	TRoute extends string = string,
+	TRequest = RequestSchema,
+> = (
+	ctx: Pick<
+		RequestContext<TRoute, TRequest>,
+		"user" | "params" | "body" | "query" | "headers" | "req"
+	>,
+) => boolean | Promise<boolean>;
+
 // ─── Endpoint Definition ──────────────────────────────────────
 
-export interface EndpointDefinition<TResponse = unknown, TArgs = void> {
+export interface EndpointDefinition<
+	TResponse = unknown,
+	TArgs = void,
+	TRoute extends string = string,
+	TRequest extends RequestSchema = RequestSchema,
+	TMiddleware extends readonly Middleware<any>[] = readonly Middleware<any>[],
+> {
 	/** Name used for the generated RTK Query hook (e.g., "getTasks" → useGetTasksQuery) */
 	name: string;
 
 	/** HTTP method */
 	method: "get" | "post" | "put" | "patch" | "delete";
 
-	/** Optional request validation schema (Zod, Valibot, etc.) */
-	request?: ValidationSchema;
+	/**
+	 * Optional request validation schema (Zod, Valibot, etc.), or
+	 * `{ params, query, body, headers }` schemas that also type the
+	 * matching `ctx` fields of the handler
+	 */
+	request?: TRequest;
+
+	/**
+	 * Optional response schema. The route handler sends the handler's
+	 * return value as parsed by it, so fields the schema doesn't declare
+	 * are stripped (e.g. by Zod object schemas). `TResponse` is inferred
+	 * from it when no type argument is given.
+	 */
+	response?: ValidationSchema<TResponse>;
+
+	/**
+	 * Accept a `multipart/form-data` body (POST, PUT and PATCH only). Files
+	 * go to `ctx.files`, the other fields are validated by `request` and
+	 * passed as `ctx.body`. The generated `query` sends the args' `body`
+	 * as `FormData`. `true` uses the default limits.
+	 */
+	multipart?: true | MultipartConfig;
 
 	/** RTK Query cache tag configuration */
 	tags?: {
@@ -97,10 +393,30 @@ export interface EndpointDefinition<TResponse = unknown, TArgs = void> {
 	/** Whether this endpoint requires authentication (default: true) */
 	protected: boolean;
 
+	/**
+	 * Who may call the endpoint, checked after the user is resolved: the
+	 * roles and permissions the user needs, or a predicate over the
+	 * request. Failing it is a 403. Implies authentication.
+	 */
+	authorize?: AccessRule | AuthorizePredicate<TRoute, TRequest>;
+
+	/**
+	 * `HttpError` classes the handler may throw. Their codes join the
+	 * built-in ones in the endpoint's generated error type and guard.
+	 */
+	errors?: HttpErrorClass[];
+
 	/** Client-side query function for RTK Query */
 	query?: (
 		args: TArgs,
-	) => string | { url: string; method?: string; body?: unknown };
+	) =>
+		| string
+		| {
+				url: string;
+				method?: string;
+				params?: Record<string, unknown>;
+				body?: unknown;
+		  };
 
 	/** Optimistic update configuration */
 	optimistic?: SingleOptimistic<TArgs> | MultiOptimistic<TArgs>;
@@ -113,6 +429,13 @@ export interface EndpointDefinition<TResponse = unknown, TArgs = void> {
 	 */
 	maxRetries?: number;
 
+	/**
+	 * Response served by the generated MSW handler in `mocks.ts`. Copied
+	 * into the generated file like `query`, so it must be self-contained.
+	 * Defaults to a placeholder value built from `TResponse`.
+	 */
+	mock?: TResponse;
+
 	/**
 	 * Per-endpoint rate limit override for the server-side route handler.
 	 * Overrides the global `rateLimit` config from `configureHandler()`.
@@ -123,13 +446,123 @@ export interface EndpointDefinition<TResponse = unknown, TArgs = void> {
 		max: number;
 	};
 
+	/**
+	 * Set by `endpoint.infinite()`. The route handler reads the page from
+	 * the `cursor`/`offset` and `limit` query parameters; `limit` is
+	 * capped at `pageSize`.
+	 */
+	pagination?: {
+		strategy: PaginationStrategy;
+		pageSize: number;
+	};
+
+	/**
+	 * Set by `endpoint.stream()`. The handler is an async generator and
+	 * the route handler sends each value it yields as a Server-Sent Event.
+	 */
+	stream?: true;
+
+	/**
+	 * Middleware run around the handler, after the global middleware of
+	 * `configureHandler()`. What each adds types `ctx.context`.
+	 */
+	middleware?: TMiddleware;
+
 	/**
 	 * Server-side handler. Optional — omit for client-only endpoints
 	 * that consume an external API.
 	 */
-	handler?: (ctx: HandlerContext<any, any>) => Promise<unknown>;
+	handler?: (
+		ctx: RequestContext<TRoute, TRequest, TMiddleware>,
+	) => Promise<unknown> | AsyncIterable<unknown>;
 }
 
+// ─── Infinite Endpoint Config ─────────────────────────────────
+
+type InfiniteHandler<TRoute extends string, TRequest, TMiddleware, TPage> = (
+	ctx: RequestContext<TRoute, TRequest, TMiddleware> & {
+		page: TPage;
+	},
+) => Promise<unknown>;
+
+/**
+ * Config for `endpoint.infinite()`. `TResponse` is a single page;
+ * `pagination` picks the strategy and types `ctx.page` in the handler.
+ */
+export type InfiniteEndpointConfig<
+	TResponse,
+	TArgs,
+	TRoute extends string,
+	TRequest extends RequestSchema = RequestSchema,
+	TMiddleware extends readonly Middleware<any>[] = readonly Middleware<any>[],
+> = Omit<
+	EndpointDefinition<TResponse, TArgs, TRoute, TRequest, TMiddleware>,
+	"method" | "pagination" | "handler"
+> & {
+	/** Items per page, sent as `limit` and the most the server hands out. Default: 20 */
+	pageSize?: number;
+
+	/** Pages kept in the cache; the oldest is dropped when another loads */
+	maxPages?: number;
+} & (
+		| {
+				pagination: "cursor";
+				/** Cursor of the page after `lastPage`, or null/undefined if it was the last */
+				nextCursor: (lastPage: TResponse) => string | null | undefined;
+				handler?: InfiniteHandler<TRoute, TRequest, TMiddleware, CursorPage>;
+		  }
+		| {
+				pagination: "offset";
+				/** Items of a page; a page shorter than `pageSize` is the last */
+				items: (page: TResponse) => readonly unknown[];
+				handler?: InfiniteHandler<TRoute, TRequest, TMiddleware, OffsetPage>;
+		  }
+	);
+
+// ─── Stream Endpoint Config ───────────────────────────────────
+
+/** Definition returned by `endpoint.stream()`. */
+export type StreamEndpointDefinition<
+	TEvent = unknown,
+	TArgs = void,
+	TRoute extends string = string,
+	TRequest extends RequestSchema = RequestSchema,
+	TMiddleware extends readonly Middleware<any>[] = readonly Middleware<any>[],
+> = EndpointDefinition<TEvent, TArgs, TRoute, TRequest, TMiddleware> & { stream: true };
+
+/**
+ * Config for `endpoint.stream()`. `TEvent` is a single event; the
+ * generated query caches the events received so far as `TEvent[]`.
+ */
+export type StreamEndpointConfig<
+	TEvent,
+	TArgs,
+	TRoute extends string,
+	TRequest extends RequestSchema = RequestSchema,
+	TMiddleware extends readonly Middleware<any>[] = readonly Middleware<any>[],
+> = Omit<
+	EndpointDefinition<TEvent, TArgs, TRoute, TRequest, TMiddleware>,
+	"method" | "pagination" | "stream" | "tags" | "optimistic" | "handler"
+> & {
+	/** HTTP method. Use "post" to send the args as a JSON body. Default: "get" */
+	method?: "get" | "post";
+
+	/** RTK Query cache tag configuration */
+	tags?: EndpointDefinition<TEvent[], TArgs, TRoute>["tags"];
+
+	/**
+	 * Apply an event to the cached events, e.g. to keep only the latest
+	 * progress update. Copied into the generated file like `query`.
+	 * Default: append it
+	 */
+	onEvent?: (draft: TEvent[], event: TEvent) => void;
+
+	/** Server-side handler: an async generator yielding the events */
+	handler?: (
+		ctx: RequestContext<TRoute, TRequest, TMiddleware>,
+	) => AsyncIterable<TEvent>;
+};
+
 // ─── Config Types ─────────────────────────────────────────────
 
 export interface ErtkRoutesConfig {
@@ -147,6 +580,39 @@ export interface ErtkRoutesConfig {
 	ignoredRoutes?: string[];
 }
 
+export interface ErtkOpenApiConfig {
+	/**
+	 * Output file. A `.yaml`/`.yml` extension writes YAML, anything else JSON.
+	 * Default: "openapi.json" in the generated directory
+	 */
+	output?: string;
+
+	/** `info.title`. Default: the project's package.json name */
+	title?: string;
+
+	/** `info.version`. Default: the project's package.json version */
+	version?: string;
+
+	/** Server URLs listed in the document */
+	servers?: string[];
+
+	/**
+	 * Security scheme required by protected endpoints, as an OpenAPI
+	 * Security Scheme Object. Default: `{ type: "http", scheme: "bearer" }`
+	 */
+	securityScheme?: Record<string, unknown>;
+
+	/** Name of the security scheme in `components.securitySchemes`. Default: "auth" */
+	securitySchemeName?: string;
+
+	/**
+	 * Document 429 responses on every operation. Set this when
+	 * `configureHandler()` has a global `rateLimit`; endpoints with their
+	 * own `rateLimit` are always documented. Default: false
+	 */
+	rateLimited?: boolean;
+}
+
 export interface ErtkConfig {
 	/** Directory containing endpoint definition files. Default: "src/endpoints" */
 	endpoints?: string;
@@ -186,11 +652,35 @@ export interface ErtkConfig {
 	 */
 	crudFilenames?: string[];
 
+	/**
+	 * Split the generated API by top-level endpoint folder. `api.ts` then
+	 * holds an empty `createApi` and each folder gets its own file
+	 * (e.g. `tasks.ts`) that calls `api.injectEndpoints` and exports only
+	 * that domain's hooks, so pages can lazy-load their slice of the API.
+	 * Default: false
+	 */
+	splitByDomain?: boolean;
+
+	/**
+	 * Generate `mocks.ts` with Mock Service Worker handlers for every
+	 * endpoint (requires `msw`). Default: false
+	 */
+	mocks?: boolean;
+
+	/**
+	 * Generate `permissions.ts` with each endpoint's `protected` and
+	 * `authorize` rule and a `can(user, endpoint)` check. Default: false
+	 */
+	permissions?: boolean;
+
 	/**
 	 * Route generation config. Omit entirely to skip route generation
 	 * (client-only mode).
 	 */
 	routes?: ErtkRoutesConfig;
+
+	/** Options for `ertk openapi` */
+	openapi?: ErtkOpenApiConfig;
 }
 
 /**
@@ -207,6 +697,18 @@ export interface ResolvedConfig {
 	baseUrl: string;
 	baseQuery: string | null;
 	crudFilenames: Set<string>;
+	splitByDomain: boolean;
+	mocks: boolean;
+	permissions: boolean;
+	openapi: {
+		output: string;
+		title: string | null;
+		version: string | null;
+		servers: string[];
+		securityScheme: Record<string, unknown>;
+		securitySchemeName: string;
+		rateLimited: boolean;
+	};
 	routes: {
 		dir: string;
 		handlerModule: string;